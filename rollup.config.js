@@ -44,11 +44,64 @@ export default [
     ],
     external: ['react', 'react-dom']
   },
+  // Server-only helpers (no React, no CSS)
+  {
+    input: 'src/server/index.ts',
+    output: [
+      {
+        file: 'dist/server.cjs',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named'
+      },
+      {
+        file: 'dist/server.esm.js',
+        format: 'esm',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      resolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json'
+      }),
+      terser()
+    ]
+  },
+  // Command line renderer (npx animated-contribution-heatmap render)
+  {
+    input: 'src/cli/index.ts',
+    output: {
+      file: 'dist/cli.js',
+      format: 'esm',
+      sourcemap: true,
+      banner: '#!/usr/bin/env node'
+    },
+    plugins: [
+      resolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json'
+      }),
+      terser()
+    ],
+    external: ['fs', 'zlib']
+  },
   // TypeScript definitions
   {
     input: 'src/index.ts',
     output: [{ file: packageJson.types, format: 'esm' }],
     plugins: [dts()],
     external: [/\.css$/]
+  },
+  {
+    input: 'src/server/index.ts',
+    output: [{ file: 'dist/server.d.ts', format: 'esm' }],
+    plugins: [dts()]
   }
 ];
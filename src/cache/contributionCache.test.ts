@@ -0,0 +1,131 @@
+import type { ContributionCacheStorage, ContributionSource } from '../types';
+import {
+  createLocalStorageCacheStorage,
+  createMemoryCacheStorage,
+  createTokenFingerprint,
+  DEFAULT_CACHE_TTL,
+  isCacheEntryFresh
+} from './contributionCache';
+import { fetchContributions } from '../server';
+import { createGitHubSource } from '../sources/githubSource';
+import { createGitLabSource } from '../sources/gitlabSource';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('isCacheEntryFresh', () => {
+  it('keeps entries fresh for the TTL, an hour by default', () => {
+    const entry = (age: number) => ({ data: null as never, storedAt: Date.now() - age });
+
+    expect(DEFAULT_CACHE_TTL).toBe(HOUR);
+    expect(isCacheEntryFresh(entry(HOUR - 1000))).toBe(true);
+    expect(isCacheEntryFresh(entry(HOUR + 1000))).toBe(false);
+    expect(isCacheEntryFresh(entry(2000), 1000)).toBe(false);
+  });
+});
+
+describe('createLocalStorageCacheStorage', () => {
+  const globals = global as unknown as { window?: unknown };
+
+  afterEach(() => {
+    delete globals.window;
+  });
+
+  it('treats every localStorage failure as best-effort', () => {
+    const fail = () => {
+      throw new Error('SecurityError');
+    };
+    globals.window = { localStorage: { getItem: fail, setItem: fail, removeItem: fail } };
+    const storage = createLocalStorageCacheStorage();
+
+    expect(storage.get('key')).toBeNull();
+    expect(() => storage.set('key', { data: null as never, storedAt: 0 })).not.toThrow();
+    expect(() => storage.delete!('key')).not.toThrow();
+  });
+});
+
+describe('fetchContributions (cache)', () => {
+  const options = {
+    username: 'jane',
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2024-01-31T00:00:00Z'),
+    timeZone: 'UTC'
+  };
+  let calls: number;
+  let source: ContributionSource;
+
+  beforeEach(() => {
+    calls = 0;
+    source = {
+      id: 'fake',
+      fetchContributions: async () => {
+        calls += 1;
+        return [{ date: '2024-01-02', count: calls }];
+      }
+    };
+  });
+
+  // Let the background refresh settle
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('serves fresh entries without fetching', async () => {
+    const cache = { storage: createMemoryCacheStorage() };
+
+    await fetchContributions({ ...options, source, cache });
+    const cached = await fetchContributions({ ...options, source, cache });
+
+    expect(calls).toBe(1);
+    expect(cached.totalContributions).toBe(1);
+  });
+
+  it('answers with a stale entry and refreshes it in the background', async () => {
+    const cache = { storage: createMemoryCacheStorage(), ttl: 0 };
+
+    await fetchContributions({ ...options, source, cache });
+    const stale = await fetchContributions({ ...options, source, cache });
+    await flush();
+    const refreshed = await fetchContributions({ ...options, source, cache });
+
+    expect(stale.totalContributions).toBe(1);
+    expect(refreshed.totalContributions).toBe(2);
+    expect(calls).toBe(3);
+  });
+
+  it('waits for fresh data when staleWhileRevalidate is off', async () => {
+    const cache = { storage: createMemoryCacheStorage(), ttl: 0, staleWhileRevalidate: false };
+
+    await fetchContributions({ ...options, source, cache });
+    const data = await fetchContributions({ ...options, source, cache });
+
+    expect(data.totalContributions).toBe(2);
+  });
+
+  it('still returns data when the storage throws', async () => {
+    const fail = () => {
+      throw new Error('Redis is down');
+    };
+    const storage: ContributionCacheStorage = { get: fail, set: async () => fail() };
+
+    const data = await fetchContributions({ ...options, source, cache: { storage } });
+
+    expect(data.totalContributions).toBe(1);
+  });
+});
+
+describe('source ids', () => {
+  it('tell tokens apart without containing them', () => {
+    const first = createGitHubSource({ token: 'ghp_first' }).id;
+    const second = createGitHubSource({ token: 'ghp_second' }).id;
+
+    expect(first).not.toBe(second);
+    expect(first).toBe(`github::::${createTokenFingerprint('ghp_first')}`);
+    expect(first).not.toContain('ghp_first');
+    expect(createGitLabSource({ token: 'glpat' }).id).not.toBe(createGitLabSource({ token: 'other' }).id);
+  });
+});
+
+describe('createTokenFingerprint', () => {
+  it('returns eight hex digits', () => {
+    expect(createTokenFingerprint('')).toBe('811c9dc5');
+    expect(createTokenFingerprint('ghp_first')).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
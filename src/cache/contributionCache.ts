@@ -0,0 +1,208 @@
+import type {
+  ContributionCacheEntry,
+  ContributionCacheOptions,
+  ContributionCacheStorage
+} from '../types';
+
+export const DEFAULT_CACHE_TTL = 60 * 60 * 1000;
+
+const STORAGE_PREFIX = 'animated-contribution-heatmap:';
+const IDB_NAME = 'animated-contribution-heatmap';
+const IDB_STORE = 'contributions';
+
+/**
+ * In-memory storage; entries live as long as the page (or server process)
+ */
+export const createMemoryCacheStorage = (): ContributionCacheStorage => {
+  const entries = new Map<string, ContributionCacheEntry>();
+
+  return {
+    get: (key) => entries.get(key) || null,
+    set: (key, entry) => {
+      entries.set(key, entry);
+    },
+    delete: (key) => {
+      entries.delete(key);
+    }
+  };
+};
+
+/**
+ * localStorage-backed storage; falls back to memory where localStorage is unavailable (SSR, private mode)
+ */
+export const createLocalStorageCacheStorage = (prefix = STORAGE_PREFIX): ContributionCacheStorage => {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    return createMemoryCacheStorage();
+  }
+
+  return {
+    get: (key) => {
+      try {
+        const raw = window.localStorage.getItem(prefix + key);
+        return raw ? JSON.parse(raw) : null;
+      } catch {
+        return null;
+      }
+    },
+    set: (key, entry) => {
+      try {
+        window.localStorage.setItem(prefix + key, JSON.stringify(entry));
+      } catch {
+        // Quota exceeded: caching is best-effort
+      }
+    },
+    delete: (key) => {
+      try {
+        window.localStorage.removeItem(prefix + key);
+      } catch {
+        // Storage disabled after the check (privacy settings): nothing to remove
+      }
+    }
+  };
+};
+
+/**
+ * IndexedDB-backed storage for larger grids; falls back to memory where IndexedDB is unavailable
+ */
+export const createIndexedDBCacheStorage = (databaseName = IDB_NAME): ContributionCacheStorage => {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryCacheStorage();
+  }
+
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return databasePromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = action(database.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: async (key) => {
+      try {
+        return (await run<ContributionCacheEntry | undefined>('readonly', (store) => store.get(key))) || null;
+      } catch {
+        return null;
+      }
+    },
+    set: async (key, entry) => {
+      try {
+        await run('readwrite', (store) => store.put(entry, key));
+      } catch {
+        // Caching is best-effort
+      }
+    },
+    delete: async (key) => {
+      try {
+        await run('readwrite', (store) => store.delete(key));
+      } catch {
+        // Caching is best-effort
+      }
+    }
+  };
+};
+
+// Built-in storages are shared so every calendar instance on the page sees the same cache
+const sharedStorages: Partial<Record<'memory' | 'localStorage' | 'indexedDB', ContributionCacheStorage>> = {};
+
+/**
+ * Resolve a storage name or adapter to an adapter
+ */
+export const resolveCacheStorage = (
+  storage: ContributionCacheOptions['storage'] = 'memory'
+): ContributionCacheStorage => {
+  if (typeof storage !== 'string') {
+    return storage;
+  }
+  if (!sharedStorages[storage]) {
+    sharedStorages[storage] = storage === 'localStorage'
+      ? createLocalStorageCacheStorage()
+      : storage === 'indexedDB'
+        ? createIndexedDBCacheStorage()
+        : createMemoryCacheStorage();
+  }
+  return sharedStorages[storage]!;
+};
+
+/**
+ * Read an entry from any storage adapter; a failing adapter reads as a cache miss
+ */
+export const readCacheEntry = async (
+  storage: ContributionCacheStorage,
+  key: string
+): Promise<ContributionCacheEntry | null> => {
+  try {
+    return (await storage.get(key)) || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Write an entry to any storage adapter; failures are ignored, since caching is best-effort
+ */
+export const writeCacheEntry = async (
+  storage: ContributionCacheStorage,
+  key: string,
+  entry: ContributionCacheEntry
+): Promise<void> => {
+  try {
+    await storage.set(key, entry);
+  } catch {
+    // The fetched data is still returned
+  }
+};
+
+/**
+ * Whether a cached entry is still within its TTL
+ */
+export const isCacheEntryFresh = (entry: ContributionCacheEntry, ttl = DEFAULT_CACHE_TTL): boolean =>
+  Date.now() - entry.storedAt < ttl;
+
+/**
+ * Normalize the hook/server `cache` option; false/undefined disables caching
+ */
+export const resolveCacheOptions = (
+  cache: boolean | ContributionCacheOptions | undefined
+): ContributionCacheOptions | null => {
+  if (!cache) {
+    return null;
+  }
+  return cache === true ? {} : cache;
+};
+
+/**
+ * Cache key for a request: source, user(s), range and layout
+ */
+export const createCacheKey = (parts: Array<string | number | boolean | undefined>): string =>
+  parts.map((part) => (part === undefined ? '' : String(part))).join('|');
+
+/**
+ * Short non-reversible fingerprint of an access token (FNV-1a), for source ids and cache keys:
+ * responses fetched with one token are never served for another, and the token is never stored
+ */
+export const createTokenFingerprint = (token: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return ('0000000' + hash.toString(16)).slice(-8);
+};
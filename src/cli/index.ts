@@ -0,0 +1,348 @@
+/**
+ * Command line renderer: writes heatmap images from GitHub or a local JSON file, no browser needed
+ *
+ *   npx animated-contribution-heatmap render --user octocat --out heatmap.svg
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { deflateSync } from 'zlib';
+import type {
+  AnimationPattern,
+  ContributionData,
+  ContributionDay,
+  ContributionLevels,
+  ContributionType,
+  Theme,
+  ThemeMode,
+  ThemePreset,
+  WeekStartsOn
+} from '../types';
+import { fetchContributions } from '../server';
+import { createContributionData, CONTRIBUTION_TYPES } from '../utils/fetchContributionData';
+import { renderAnimatedContributionSvg, renderContributionSvg } from '../utils/contributionSvg';
+import { rasterizeContributionData } from '../utils/contributionRaster';
+import { encodePng } from '../utils/pngEncoder';
+import { createSeededRandom } from '../utils/patternEngine';
+import { createAnimationFrames, exportAnimation } from '../utils/animationExport';
+import { createCalendarDate } from '../utils/dates';
+import { THEMES } from '../utils/themes';
+
+const USAGE = `Usage: animated-contribution-heatmap render [options]
+
+Data (one of):
+  --user <login>            GitHub user to fetch (needs --token or GITHUB_TOKEN)
+  --users <a,b,...>         Team heatmap of several users
+  --input <file.json>       ContributionData (used as laid out) or a { date, count } day list (offline)
+
+Range:
+  --start <YYYY-MM-DD>      First day (default: January 1st, or the first input day)
+  --end <YYYY-MM-DD>        Last day (default: December 31st, or the last input day)
+  --week-start <0-6>        First day of each column (0 = Sunday, 1 = Monday)
+  --time-zone <zone>        IANA time zone the range is read in
+
+Output:
+  --out <file>              .svg, .png or .gif file (default: SVG on stdout)
+  --format <svg|png|gif>    Override the format picked from --out
+  --theme <name|file.json>  light, dark, ${Object.keys(THEMES).join(', ')} or a Theme JSON file (default dark)
+  --levels <spec>           native, quantiles[:N] or thresholds like 1,3,6,11
+  --type <type>             Only draw one contribution type (${CONTRIBUTION_TYPES.join(', ')})
+  --square-size <px>        Square size (default 14)
+  --gap-size <px>           Gap between squares (default 3)
+  --scale <n>               Device pixels per pixel for PNG and GIF (default 1)
+  --locale <tag>            BCP 47 locale for labels and tooltips
+  --no-month-labels         Leave out month names (SVG)
+  --no-weekday-labels       Leave out weekday names (SVG)
+  --no-tooltips             Leave out day tooltips (SVG)
+
+Animation (SVG, animated PNG or GIF):
+  --animate <pattern>       gameOfLife, ripple, wave, rain, spiral, noise or rule30
+  --frames <n>              Generations to play after the real data (default 60)
+  --frame-duration <ms>     Time per frame (default 150)
+  --seed <n>                Seed the pattern's randomness for repeatable output
+  --from-data               Start the pattern from the days with contributions
+  --once                    Play once and settle on the real data instead of looping
+
+  --token <token>           GitHub token (default: GITHUB_TOKEN)
+  --help                    Show this message
+`;
+
+const PATTERNS: AnimationPattern[] = ['gameOfLife', 'ripple', 'wave', 'rain', 'spiral', 'noise', 'rule30'];
+
+interface CliOptions {
+  flags: Record<string, string>;
+  switches: Record<string, boolean>;
+}
+
+// Flags that never take a value
+const SWITCHES = ['help', 'from-data', 'once', 'no-month-labels', 'no-weekday-labels', 'no-tooltips'];
+const FLAGS = [
+  'user', 'users', 'input', 'token', 'start', 'end', 'week-start', 'time-zone', 'out', 'format', 'theme',
+  'levels', 'type', 'square-size', 'gap-size', 'scale', 'locale', 'animate', 'frames', 'frame-duration', 'seed'
+];
+
+const parseArgs = (args: string[]): CliOptions => {
+  const flags: Record<string, string> = {};
+  const switches: Record<string, boolean> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h') {
+      switches.help = true;
+      continue;
+    }
+    if (arg.slice(0, 2) !== '--') {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/);
+    if (SWITCHES.indexOf(name) >= 0) {
+      switches[name] = true;
+      continue;
+    }
+    if (FLAGS.indexOf(name) < 0) {
+      throw new Error(`Unknown option --${name}`);
+    }
+    const value = inlineValue ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+    flags[name] = value;
+  }
+
+  return { flags, switches };
+};
+
+const parseNumber = (flags: Record<string, string>, name: string): number | undefined => {
+  if (flags[name] === undefined) {
+    return undefined;
+  }
+  const value = Number(flags[name]);
+  if (isNaN(value)) {
+    throw new Error(`--${name} must be a number, got "${flags[name]}"`);
+  }
+  return value;
+};
+
+const parsePositiveNumber = (flags: Record<string, string>, name: string): number | undefined => {
+  const value = parseNumber(flags, name);
+  if (value !== undefined && !(value > 0)) {
+    throw new Error(`--${name} must be greater than 0, got "${flags[name]}"`);
+  }
+  return value;
+};
+
+// Calendar dates are built in --time-zone (or the local zone), which the range is read in
+const parseDate = (value: string | undefined, name: string, timeZone?: string): Date | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`--${name} must be a YYYY-MM-DD date, got "${value}"`);
+  }
+  return createCalendarDate(value, timeZone);
+};
+
+const parseWeekStart = (flags: Record<string, string>): WeekStartsOn | undefined => {
+  const value = parseNumber(flags, 'week-start');
+  if (value !== undefined && !(value >= 0 && value <= 6 && value % 1 === 0)) {
+    throw new Error(`--week-start must be a whole number from 0 (Sunday) to 6 (Saturday), got "${flags['week-start']}"`);
+  }
+  return value as WeekStartsOn | undefined;
+};
+
+const parseTheme = (value: string | undefined): ThemeMode | Theme => {
+  if (!value || value === 'light' || value === 'dark') {
+    return (value as ThemeMode) || 'dark';
+  }
+  if (Object.prototype.hasOwnProperty.call(THEMES, value)) {
+    return THEMES[value as ThemePreset];
+  }
+  return JSON.parse(readFileSync(value, 'utf8')) as Theme;
+};
+
+const parseLevels = (value: string | undefined): ContributionLevels | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  if (value === 'native') {
+    return { kind: 'native' };
+  }
+  const quantiles = /^quantiles(?::(\d+))?$/.exec(value);
+  if (quantiles) {
+    return { kind: 'quantiles', levels: quantiles[1] ? Number(quantiles[1]) : undefined };
+  }
+  const thresholds = value.split(',').map(Number);
+  if (thresholds.some(isNaN)) {
+    throw new Error(`--levels must be native, quantiles[:N] or a list of thresholds, got "${value}"`);
+  }
+  return { kind: 'thresholds', thresholds };
+};
+
+const loadInput = (
+  file: string,
+  { user, start, end, timeZone, weekStartsOn }: { user?: string; start?: Date; end?: Date; timeZone?: string; weekStartsOn?: WeekStartsOn }
+): ContributionData => {
+  const json = JSON.parse(readFileSync(file, 'utf8'));
+  // Already laid out (e.g. saved from the contributions route); its range and week start are fixed
+  if (json && Array.isArray(json.grid) && Array.isArray(json.days)) {
+    if (start || end || timeZone || weekStartsOn !== undefined) {
+      throw new Error(
+        `${file} is already laid out, so --start, --end, --time-zone and --week-start cannot apply; `
+        + 'pass its "days" list instead'
+      );
+    }
+    return json as ContributionData;
+  }
+
+  const days: ContributionDay[] = (Array.isArray(json) ? json : json?.days || [])
+    .slice()
+    .sort((a: ContributionDay, b: ContributionDay) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  if (days.length === 0 && (!start || !end)) {
+    throw new Error(`${file} has no days; pass --start and --end to render an empty calendar`);
+  }
+
+  return createContributionData(days, {
+    username: user || json?.username || 'contributions',
+    startDate: start || parseDate(days[0].date, 'input', timeZone)!,
+    endDate: end || parseDate(days[days.length - 1].date, 'input', timeZone)!,
+    timeZone,
+    weekStartsOn
+  });
+};
+
+const render = async (args: string[]) => {
+  const { flags, switches } = parseArgs(args);
+  if (switches.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const timeZone = flags['time-zone'];
+  const start = parseDate(flags.start, 'start', timeZone);
+  const end = parseDate(flags.end, 'end', timeZone);
+  const weekStartsOn = parseWeekStart(flags);
+  const contributionType = (flags.type || 'all') as ContributionType | 'all';
+  if (contributionType !== 'all' && CONTRIBUTION_TYPES.indexOf(contributionType) < 0) {
+    throw new Error(`--type must be one of ${CONTRIBUTION_TYPES.join(', ')}`);
+  }
+
+  const out = flags.out && flags.out !== '-' ? flags.out : undefined;
+  const extension = out ? /\.(svg|png|gif)$/i.exec(out) : null;
+  const format = flags.format || (extension ? extension[1].toLowerCase() : 'svg');
+  if (format !== 'svg' && format !== 'png' && format !== 'gif') {
+    throw new Error(`--format must be svg, png or gif, got "${format}"`);
+  }
+
+  const pattern = flags.animate as AnimationPattern | undefined;
+  if (pattern && PATTERNS.indexOf(pattern) < 0) {
+    throw new Error(`--animate must be one of ${PATTERNS.join(', ')}`);
+  }
+  if (format === 'gif' && !pattern) {
+    throw new Error('GIF output is animated; pass --animate <pattern> or write .svg/.png');
+  }
+
+  let data: ContributionData;
+  if (flags.input) {
+    data = loadInput(flags.input, { user: flags.user, start, end, timeZone, weekStartsOn });
+  } else if (flags.user || flags.users) {
+    const usernames = flags.users ? flags.users.split(',').filter(Boolean) : undefined;
+    data = await fetchContributions({
+      token: flags.token,
+      username: flags.user,
+      usernames,
+      startDate: start,
+      endDate: end,
+      includeTypes: contributionType !== 'all',
+      timeZone,
+      weekStartsOn
+    });
+  } else {
+    throw new Error('Pass --user, --users or --input (see --help)');
+  }
+
+  const theme = parseTheme(flags.theme);
+  const levels = parseLevels(flags.levels);
+  const squareSize = parsePositiveNumber(flags, 'square-size');
+  const gapSize = parsePositiveNumber(flags, 'gap-size');
+
+  const seed = parseNumber(flags, 'seed');
+  const animation = pattern && {
+    pattern,
+    generations: parseNumber(flags, 'frames'),
+    startFrom: switches['from-data'] ? 'data' as const : 'pattern' as const,
+    random: seed !== undefined ? createSeededRandom(seed) : Math.random
+  };
+  const deflate = (bytes: Uint8Array) => deflateSync(bytes, { level: 9 });
+
+  let output: string | Uint8Array;
+  if (animation && format !== 'svg') {
+    output = exportAnimation(data, {
+      ...animation,
+      format: format === 'png' ? 'apng' : 'gif',
+      theme,
+      levels,
+      contributionType,
+      squareSize,
+      gapSize,
+      scale: parseNumber(flags, 'scale'),
+      frameDelay: parseNumber(flags, 'frame-duration'),
+      loop: !switches.once,
+      deflate
+    });
+  } else if (format === 'png') {
+    const image = rasterizeContributionData(data, {
+      theme,
+      levels,
+      contributionType,
+      squareSize,
+      gapSize,
+      scale: parseNumber(flags, 'scale')
+    });
+    output = encodePng(image, { deflate });
+  } else {
+    const svgOptions = {
+      theme,
+      levels,
+      contributionType,
+      squareSize,
+      gapSize,
+      showMonthLabels: !switches['no-month-labels'],
+      showWeekdayLabels: !switches['no-weekday-labels'],
+      tooltips: !switches['no-tooltips'],
+      locale: flags.locale
+    };
+
+    if (animation) {
+      output = renderAnimatedContributionSvg(data, createAnimationFrames(data, animation), {
+        ...svgOptions,
+        frameDuration: parseNumber(flags, 'frame-duration'),
+        loop: !switches.once
+      });
+    } else {
+      output = renderContributionSvg(data, svgOptions);
+    }
+  }
+
+  if (out) {
+    writeFileSync(out, output);
+    process.stderr.write(`Wrote ${out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+const main = async (argv: string[]) => {
+  const [command, ...args] = argv;
+  if (!command || command === '--help' || command === '-h') {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (command !== 'render') {
+    throw new Error(`Unknown command "${command}" (expected "render")`);
+  }
+  await render(args);
+};
+
+main(process.argv.slice(2)).catch((err) => {
+  process.stderr.write(`error: ${err instanceof Error ? err.message : err}\n`);
+  process.exitCode = 1;
+});
@@ -1,104 +1,80 @@
-import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useRef, useState, useMemo } from 'react';
 import './ContributionCalendar.css';
 import { useAnimationPatterns, AnimationPattern } from '../hooks/useAnimationPatterns';
-
-export interface ContributionCalendarProps {
-  /** GitHub Personal Access Token */
-  githubToken?: string;
-  /** GitHub username to display */
-  username?: string;
-  /** Theme: 'light' or 'dark' */
-  theme?: 'light' | 'dark';
-  /** Start date for the calendar */
-  startDate?: Date;
-  /** End date for the calendar */
-  endDate?: Date;
-  /** Animation speed in milliseconds */
-  animationSpeed?: number;
-  /** Maximum animation cycles */
-  maxGenerations?: number;
-  /** Size of contribution squares in pixels */
-  squareSize?: number;
-  /** Gap between squares in pixels */
-  gapSize?: number;
-  /** Number of grid rows */
-  gridRows?: number;
-  /** Number of grid columns */
-  gridCols?: number;
-  /** Custom CSS class name */
-  className?: string;
-  /** Callback when animation starts */
-  onAnimationStart?: (pattern: AnimationPattern) => void;
-  /** Callback when animation stops */
-  onAnimationStop?: () => void;
-  /** Callback when data is loaded */
-  onDataLoad?: (data: any) => void;
-  /** Callback when error occurs */
-  onError?: (error: Error) => void;
-}
-
-export interface ContributionData {
-  grid: number[][];
-  startDate: string;
-  endDate: string;
-  totalContributions: number;
-  username: string;
-}
+import type { ContributionCalendarProps, ContributionData, ContributionType } from '../types';
+import ContributionCanvas from './ContributionCanvas';
+import ContributionSvg from './ContributionSvg';
+import { useGitHubContributions } from '../hooks/useGitHubContributions';
+import { calculateDateFromGridPosition, getGridDimensions, isOutsideRange } from '../utils/contributionGrid';
+import { dateKeyToUTC, getDefaultDateRange, toDateKey } from '../utils/dates';
+import {
+  formatDayTooltip,
+  formatMessage,
+  formatNumber,
+  formatPlural,
+  mergeMessages,
+  selectPlural
+} from '../utils/messages';
+import { getMonthLabels, getWeekdayLabels } from '../utils/calendarLabels';
+import { createContributionData } from '../utils/fetchContributionData';
+import { buildLevelGrid, createLevelScale } from '../utils/contributionLevels';
+import { getLevelColor, getPaletteSize, getThemeVariables } from '../utils/themes';
+
+export type { ContributionCalendarProps, ContributionData };
 
 const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
   githubToken = process.env.NEXT_PUBLIC_GITHUB_TOKEN || '',
   username = process.env.NEXT_PUBLIC_GITHUB_USERNAME || 'octocat',
+  usernames,
+  aggregate = 'sum',
   theme = 'dark',
-  startDate = new Date(new Date().getFullYear(), 0, 1),
-  endDate = new Date(new Date().getFullYear(), 11, 31),
+  startDate: startDateOption,
+  endDate: endDateOption,
   animationSpeed = 150,
   maxGenerations = 500,
   squareSize = 14,
   gapSize = 3,
-  gridRows = 7,
-  gridCols = 53,
+  renderer = 'dom',
+  gridRows,
+  gridCols,
+  source,
+  dataUrl,
+  initialData,
+  data: controlledData,
+  organization,
+  repositories,
+  contributionType = 'all',
+  showTypeFilter = false,
+  levels,
+  showMonthLabels = true,
+  showWeekdayLabels = true,
+  locale,
+  messages: messageOverrides,
+  autoFetch = true,
+  refetchInterval = 0,
+  cache,
+  timeZone,
+  weekStartsOn = 0,
   className = '',
   onAnimationStart,
   onAnimationStop,
   onDataLoad,
-  onError
+  onCellClick,
+  onError,
+  renderError
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const calendarInstanceRef = useRef<any>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [data, setData] = useState<ContributionData | null>(null);
+  const isControlled = controlledData !== undefined;
   const [showRealData, setShowRealData] = useState(true);
   const letterClickDebounceRef = useRef<number | null>(null);
 
-  // Animation hook
-  const {
-    grid: animationGrid,
-    animationState,
-    startAnimation,
-    stopAnimation,
-    changePattern,
-    resetGrid,
-    randomizeGrid
-  } = useAnimationPatterns({
-    rows: gridRows,
-    cols: gridCols,
-    animationSpeed,
-    maxGenerations,
-    onPatternChange: onAnimationStart,
-    onAnimationStart,
-    onAnimationStop
-  });
-
-  // Stable callback references to prevent infinite re-renders
-  const onDataLoadRef = useRef(onDataLoad);
-  const onErrorRef = useRef(onError);
+  // This year in timeZone unless a range is given
+  const defaultRange = startDateOption && endDateOption ? null : getDefaultDateRange(timeZone);
+  const startDate = startDateOption || defaultRange!.startDate;
+  const endDate = endDateOption || defaultRange!.endDate;
 
-  // Update refs when callbacks change - prevent infinite loops
-  useEffect(() => {
-    onDataLoadRef.current = onDataLoad;
-    onErrorRef.current = onError;
-  }, [onDataLoad, onError]);
+  const rangeStartDate = toDateKey(startDate, timeZone);
+  const rangeEndDate = toDateKey(endDate, timeZone);
 
   // Pattern mapping for letters (8 patterns for 8 letters in "Activity")
   const animateLetterPatterns: AnimationPattern[] = [
@@ -112,195 +88,203 @@ const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
     'gameOfLife'  // y (reuse Game of Life for 8th letter)
   ];
 
-  // Pattern names for tooltips
-  const patternNames: Record<AnimationPattern, string> = {
-    gameOfLife: "Conway's Game of Life",
-    ripple: "Circular Ripples",
-    wave: "Wave Pattern",
-    rain: "Rain Effect",
-    spiral: "Spiral Pattern",
-    noise: "Random Noise",
-    rule30: "Rule 30 Automaton",
-    image: "Image Pattern",
-  };
+  // User-facing strings: English defaults with the caller's overrides on top
+  const messages = useMemo(() => mergeMessages(messageOverrides), [messageOverrides]);
+  const contributionTypes: Array<ContributionType | 'all'> = ['all', 'commits', 'pullRequests', 'reviews', 'issues'];
 
-  // CRITICAL: Add request throttling state
-  const [isFetching, setIsFetching] = useState(false);
-  const lastRequestTimeRef = useRef(0);
-
-  // Fetch GitHub contributions - FIXED: Remove problematic dependencies
-  const fetchGithubContributions = useCallback(async () => {
-    const now = Date.now();
-    
-    // CRITICAL: Prevent multiple simultaneous requests
-    if (isFetching) {
-      console.log('THROTTLED: Request already in progress, skipping...');
-      return;
-    }
-    
-    // CRITICAL: Rate limiting protection (1 second minimum)
-    if (now - lastRequestTimeRef.current < 1000) {
-      console.log('THROTTLED: Request throttled to prevent rate limiting');
-      return;
-    }
-    
-    // CRITICAL: Validate required credentials
-    if (!githubToken || !username) {
-      if (onErrorRef.current) {
-        onErrorRef.current(new Error('GitHub token and username are required'));
-      }
-      return;
-    }
+  // Theme objects are applied as CSS variables on top of their light/dark mode
+  const themeObject = typeof theme === 'string' ? undefined : theme;
+  const themeVariables = useMemo(() => (themeObject ? getThemeVariables(themeObject) : {}), [themeObject]);
+  const containerClassName = `contribution-calendar-container ${themeObject ? themeObject.mode : theme} ${className}`;
+  const paletteSize = getPaletteSize(themeObject);
 
-    setIsFetching(true);
-    lastRequestTimeRef.current = now;
-
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      const query = `
-        query($login: String!) {
-          user(login: $login) {
-            contributionsCollection {
-              contributionCalendar {
-                totalContributions
-                weeks {
-                  contributionDays {
-                    date
-                    contributionCount
-                    contributionLevel
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
-
-      const response = await fetch('https://api.github.com/graphql', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query,
-          variables: { login: username }
-        })
-      });
+  // Tooltip dates, e.g. "January 5" / "5. Januar"; keys are UTC midnights
+  const dayFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { month: 'long', day: 'numeric', timeZone: 'UTC' }),
+    [locale]
+  );
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  // Wrap the value of one placeholder in <strong>, e.g. "<strong>42</strong> contributions"
+  const emphasize = (template: string, name: string, value: string) => {
+    const [before, after = ''] = template.split(`{${name}}`);
+    return (
+      <>
+        {before}<strong>{value}</strong>{after}
+      </>
+    );
+  };
 
-      const result = await response.json();
+  // Per-type layers are only fetched when something can display them
+  const includeTypes = showTypeFilter || contributionType !== 'all';
+  const [activeType, setActiveType] = useState<ContributionType | 'all'>(contributionType);
 
-      if (result.errors) {
-        throw new Error(result.errors[0]?.message || 'GraphQL error');
-      }
+  useEffect(() => {
+    setActiveType(contributionType);
+  }, [contributionType]);
 
-      if (!result.data?.user?.contributionsCollection?.contributionCalendar?.weeks) {
-        throw new Error('User not found or no contribution data available');
-      }
+  // Data fetching is shared with the exported hook so both paths behave identically
+  const {
+    data: fetchedData,
+    loading: isLoading,
+    error,
+    refetch
+  } = useGitHubContributions({
+    token: githubToken,
+    username,
+    usernames,
+    aggregate,
+    startDate,
+    endDate,
+    gridRows,
+    gridCols,
+    source,
+    dataUrl,
+    initialData,
+    organization,
+    repositories,
+    includeTypes,
+    autoFetch: autoFetch && !isControlled,
+    refetchInterval: isControlled ? 0 : refetchInterval,
+    cache,
+    timeZone,
+    weekStartsOn,
+    onDataLoad,
+    onError
+  });
 
-      const weeks = result.data.user.contributionsCollection.contributionCalendar.weeks;
-      const grid: number[][] = [];
-      
-      // Initialize grid
-      for (let row = 0; row < gridRows; row++) {
-        grid[row] = new Array(gridCols).fill(0);
-      }
-      
-      // Create a map of dates to contributions from GitHub data
-      const dateContributionMap = new Map();
-      weeks.forEach((week: any) => {
-        week.contributionDays.forEach((day: any) => {
-          dateContributionMap.set(day.date, day.contributionCount);
+  // Controlled mode: lay out caller-supplied data, never touching the network
+  const startTime = startDate.getTime();
+  const endTime = endDate.getTime();
+  const controlledContributionData = useMemo(() => {
+    if (!controlledData) {
+      return null;
+    }
+    if (!Array.isArray(controlledData)) {
+      return controlledData;
+    }
+    return createContributionData(controlledData, {
+      username,
+      startDate: new Date(startTime),
+      endDate: new Date(endTime),
+      gridRows,
+      gridCols,
+      timeZone,
+      weekStartsOn
+    });
+  }, [controlledData, username, startTime, endTime, gridRows, gridCols, timeZone, weekStartsOn]);
+
+  const data = isControlled ? controlledContributionData : fetchedData;
+
+  // Grid size follows the laid-out data (which may cover another range, e.g. initialData),
+  // else the date range unless gridRows/gridCols override it
+  const rangeDimensions = getGridDimensions(rangeStartDate, rangeEndDate, weekStartsOn);
+  const rows = data ? data.grid.length : gridRows ?? rangeDimensions.rows;
+  const cols = data ? data.grid[0]?.length || 0 : gridCols ?? rangeDimensions.cols;
+
+  // Animation hook
+  const {
+    grid: animationGrid,
+    animationState,
+    startAnimation,
+    stopAnimation,
+    changePattern,
+    resetGrid,
+    randomizeGrid
+  } = useAnimationPatterns({
+    rows,
+    cols,
+    animationSpeed,
+    maxGenerations,
+    onPatternChange: onAnimationStart,
+    onAnimationStart,
+    onAnimationStop
+  });
+
+  // Grid dates come from the laid-out data so tooltips always match the cells
+  const gridStartDate = data ? data.startDate : rangeStartDate;
+  const gridEndDate = data ? data.endDate : rangeEndDate;
+  const gridWeekStartsOn = data ? data.weekStartsOn || 0 : weekStartsOn;
+
+  // Axis labels follow the laid-out grid and its week start
+  const monthLabels = useMemo(() => {
+    const labels: Record<number, string> = {};
+    if (showMonthLabels) {
+      getMonthLabels({ startDate: gridStartDate, endDate: gridEndDate, cols, weekStartsOn: gridWeekStartsOn, locale })
+        .forEach(({ col, label }) => {
+          labels[col] = label;
         });
-      });
-      
-      // Fill grid based on custom date range
-      for (let col = 0; col < gridCols; col++) {
-        for (let row = 0; row < gridRows; row++) {
-          const targetDate = calculateDateFromGridPosition(row, col);
-          const dateStr = targetDate.toISOString().split('T')[0];
-          const contributionCount = dateContributionMap.get(dateStr) || 0;
-          grid[row][col] = contributionCount;
-        }
-      }
+    }
+    return labels;
+  }, [showMonthLabels, gridStartDate, gridEndDate, cols, gridWeekStartsOn, locale]);
 
-      const contributionData: ContributionData = {
-        grid,
-        startDate: startDate.toISOString().split('T')[0],
-        endDate: endDate.toISOString().split('T')[0],
-        totalContributions: result.data.user.contributionsCollection.contributionCalendar.totalContributions,
-        username
-      };
+  const weekdayLabels = useMemo(
+    () => (showWeekdayLabels ? getWeekdayLabels(gridWeekStartsOn, locale) : []),
+    [showWeekdayLabels, gridWeekStartsOn, locale]
+  );
 
-      setData(contributionData);
-      
-      // CRITICAL: Use ref callback to prevent dependency issues
-      if (onDataLoadRef.current) {
-        onDataLoadRef.current(contributionData);
-      }
-      
-      setIsLoading(false);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch GitHub data';
-      setError(errorMessage);
-      
-      // CRITICAL: Use ref callback for error handling
-      if (onErrorRef.current) {
-        onErrorRef.current(err instanceof Error ? err : new Error(errorMessage));
-      }
-      
-      setIsLoading(false);
-    } finally {
-      setIsFetching(false);
+  // Levels are scaled to the layer on screen; GitHub's native levels only describe the total
+  const realGrid = data ? (activeType !== 'all' && data.layers ? data.layers[activeType] : data.grid) : null;
+  const levelScale = useMemo(() => createLevelScale(levels, {
+    counts: realGrid ? ([] as number[]).concat(...realGrid) : [],
+    days: data && realGrid === data.grid ? data.days : undefined
+  }), [levels, realGrid, data]);
+
+  // Cell contents for this frame: the selected data layer, or the animation grid
+  const currentGrid = showRealData ? realGrid : animationGrid;
+
+  // Canvas and SVG renderers: levels for the whole frame, computed once
+  const levelGrid = useMemo(() => {
+    if (renderer === 'dom' || !currentGrid) {
+      return null;
+    }
+    return buildLevelGrid(currentGrid, {
+      rows,
+      cols,
+      scale: levelScale,
+      range: showRealData
+        ? { startDate: gridStartDate, endDate: gridEndDate, weekStartsOn: gridWeekStartsOn }
+        : undefined
+    });
+  }, [renderer, currentGrid, rows, cols, showRealData, levelScale, gridStartDate, gridEndDate, gridWeekStartsOn]);
+
+  // Day lookup for tooltips
+  const daysByDate = useMemo(() => {
+    const lookup = new Map<string, ContributionData['days'][number]>();
+    data?.days.forEach((day) => lookup.set(day.date, day));
+    return lookup;
+  }, [data]);
+
+  // Tooltip text for a cell of the current frame
+  const getCellTooltip = (row: number, col: number): string => {
+    const value = currentGrid?.[row]?.[col] || 0;
+    if (!showRealData) {
+      return value > 0
+        ? formatMessage(messages.animationCellTooltip, {
+          row,
+          col,
+          contributions: formatPlural(messages.contributionCounts.all, value, locale)
+        })
+        : formatMessage(messages.animationCellEmptyTooltip, { row, col });
     }
-  }, [githubToken, username, startDate, endDate, gridRows, gridCols]);
-  // CRITICAL NOTE: isLoading and lastRequestTime REMOVED from dependencies
-
-  // Calculate date from grid position
-  const calculateDateFromGridPosition = (row: number, col: number): Date => {
-    const startWeekBegin = new Date(startDate);
-    const daysFromSunday = startDate.getDay();
-    startWeekBegin.setDate(startDate.getDate() - daysFromSunday);
-    
-    const targetDate = new Date(startWeekBegin);
-    targetDate.setDate(startWeekBegin.getDate() + (col * 7) + row);
-    
-    return targetDate;
-  };
 
-  // Get date string for tooltip
-  const getDateForGridPosition = (row: number, col: number): string => {
-    const targetDate = calculateDateFromGridPosition(row, col);
-    
-    const months = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    
-    const month = months[targetDate.getMonth()];
-    const day = targetDate.getDate();
-    const dayWithSuffix = addOrdinalSuffix(day);
-    
-    return `${month} ${dayWithSuffix}`;
+    const dateKey = calculateDateFromGridPosition(gridStartDate, row, col, gridWeekStartsOn);
+    return formatDayTooltip(messages, {
+      count: value,
+      date: dayFormatter.format(dateKeyToUTC(dateKey)),
+      type: data?.layers ? activeType : 'all',
+      // Per-user breakdown for team heatmaps
+      users: data?.userTotals ? daysByDate.get(dateKey)?.users : undefined,
+      locale
+    });
   };
 
-  // Add ordinal suffix to day
-  const addOrdinalSuffix = (day: number): string => {
-    if (day >= 11 && day <= 13) {
-      return day + 'th';
-    }
-    switch (day % 10) {
-      case 1: return day + 'st';
-      case 2: return day + 'nd';
-      case 3: return day + 'rd';
-      default: return day + 'th';
+  const handleCellClick = (row: number, col: number) => {
+    if (!onCellClick) {
+      return;
     }
+    const date = calculateDateFromGridPosition(gridStartDate, row, col, gridWeekStartsOn);
+    const count = currentGrid?.[row]?.[col] || 0;
+    onCellClick({ row, col, date, count, level: levelScale.getLevel(count, showRealData ? date : null) });
   };
 
   // Handle letter click for animations
@@ -336,40 +320,35 @@ const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
     changePattern(newPattern);
   };
 
-  // CRITICAL: Initialize only once with proper dependency management
-  const hasInitialized = useRef(false);
-
-  useEffect(() => {
-    if (!hasInitialized.current) {
-      hasInitialized.current = true;
-      // CRITICAL: Small delay prevents race conditions
-      const timer = setTimeout(() => {
-        fetchGithubContributions();
-      }, 100);
-      return () => clearTimeout(timer);
-    }
-  }, [fetchGithubContributions]);
-
-  if (isLoading) {
+  if (isLoading && !isControlled) {
     return (
-      <div className={`contribution-calendar-container ${theme} ${className}`}>
+      <div className={containerClassName} style={themeVariables as React.CSSProperties}>
         <div className="cc-loading">
           <div className="cc-spinner"></div>
-          <p>Loading contribution data...</p>
+          <p>{messages.loading}</p>
         </div>
       </div>
     );
   }
 
-  if (error) {
+  if (error && !isControlled) {
+    const retry = () => {
+      refetch();
+    };
+
     return (
-      <div className={`contribution-calendar-container ${theme} ${className}`}>
-        <div className="cc-error">
-          <p>❌ {error}</p>
-          <button onClick={fetchGithubContributions} className="cc-retry-btn">
-            Retry
-          </button>
-        </div>
+      <div className={containerClassName} style={themeVariables as React.CSSProperties}>
+        {renderError ? renderError(error, retry) : (
+          <div className="cc-error">
+            <p>❌ {messages.errors[error.kind] || error.message}</p>
+            {error.kind === 'rateLimited' && error.resetAt && (
+              <p>{formatMessage(messages.rateLimitResets, { time: new Date(error.resetAt).toLocaleTimeString(locale) })}</p>
+            )}
+            <button onClick={retry} className="cc-retry-btn">
+              {messages.retry}
+            </button>
+          </div>
+        )}
       </div>
     );
   }
@@ -378,11 +357,15 @@ const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
     return null;
   }
 
+  // alive-1..4 classes cover a matching palette; other level counts are colored inline
+  const inlineLevelColors = levelScale.levels !== paletteSize || paletteSize > 4;
+
   return (
     <div 
       ref={containerRef}
-      className={`contribution-calendar-container ${theme} ${className}`}
+      className={containerClassName}
       style={{
+        ...themeVariables,
         '--cc-square-size': `${squareSize}px`,
         '--cc-gap-size': `${gapSize}px`
       } as React.CSSProperties}
@@ -396,7 +379,10 @@ const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
               data-pattern={animateLetterPatterns[index]}
               data-index={index}
               onClick={() => handleLetterClick(index)}
-              title={`Click to ${animationState.activeLetterIndex === index ? "pause & restore" : "start"} ${patternNames[animateLetterPatterns[index]]}`}
+              title={formatMessage(
+                animationState.activeLetterIndex === index ? messages.pausePattern : messages.startPattern,
+                { pattern: messages.patterns[animateLetterPatterns[index]] }
+              )}
             >
               {letter}
             </span>
@@ -406,36 +392,91 @@ const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
       
       <div className="cc-calendar-container">
         <div className="cc-grid-container">
-          {Array.from({ length: gridCols }, (_, col) => (
+          {showWeekdayLabels && (
+            <div className="cc-weekday-labels" aria-hidden="true">
+              {showMonthLabels && <span className="cc-month-label" />}
+              {Array.from({ length: rows }, (_, row) => (
+                // Every other row, like GitHub (Mon, Wed, Fri for Sunday-first weeks)
+                <span key={row} className="cc-weekday-label">
+                  {row % 2 === 1 ? weekdayLabels[row % 7] : ''}
+                </span>
+              ))}
+            </div>
+          )}
+          {levelGrid ? (
+            <div className="cc-grid-area">
+              {showMonthLabels && (
+                <div className="cc-month-labels" aria-hidden="true">
+                  {Array.from({ length: cols }, (_, col) => (
+                    <span key={col} className="cc-month-label">{monthLabels[col] || ''}</span>
+                  ))}
+                </div>
+              )}
+              {renderer === 'svg' ? (
+                <ContributionSvg
+                  levelGrid={levelGrid}
+                  rows={rows}
+                  cols={cols}
+                  squareSize={squareSize}
+                  gapSize={gapSize}
+                  levels={levelScale.levels}
+                  paletteSize={paletteSize}
+                  getTooltip={getCellTooltip}
+                  onCellClick={onCellClick ? handleCellClick : undefined}
+                  ariaLabel={formatPlural(messages.totalContributions, data.totalContributions, locale)}
+                />
+              ) : (
+                <ContributionCanvas
+                  levelGrid={levelGrid}
+                  rows={rows}
+                  cols={cols}
+                  squareSize={squareSize}
+                  gapSize={gapSize}
+                  levels={levelScale.levels}
+                  paletteSize={paletteSize}
+                  styleKey={`${containerClassName}|${JSON.stringify(themeVariables)}`}
+                  getTooltip={getCellTooltip}
+                  onCellClick={onCellClick ? handleCellClick : undefined}
+                  ariaLabel={formatPlural(messages.totalContributions, data.totalContributions, locale)}
+                />
+              )}
+            </div>
+          ) : Array.from({ length: cols }, (_, col) => (
             <div key={col} className="cc-column">
-              {Array.from({ length: gridRows }, (_, row) => {
-                // Use animation grid if not showing real data, otherwise use GitHub data
-                const currentGrid = showRealData ? data.grid : animationGrid;
-                const value = currentGrid[row][col];
-                const dateString = getDateForGridPosition(row, col);
-                
-                let level = 0;
-                if (value > 0) {
-                  if (value > 10) level = 4;
-                  else if (value > 5) level = 3;
-                  else if (value > 2) level = 2;
-                  else level = 1;
+              {showMonthLabels && (
+                <span className="cc-month-label" aria-hidden="true">{monthLabels[col] || ''}</span>
+              )}
+              {Array.from({ length: rows }, (_, row) => {
+                const value = currentGrid?.[row]?.[col] || 0;
+                const dateKey = calculateDateFromGridPosition(gridStartDate, row, col, gridWeekStartsOn);
+
+                // Padding before startDate / after endDate is not part of the range
+                if (showRealData && isOutsideRange(dateKey, gridStartDate, gridEndDate)) {
+                  return (
+                    <div
+                      key={`${row}-${col}`}
+                      className="cc-square cc-outside"
+                      data-row={row}
+                      data-col={col}
+                      aria-hidden="true"
+                    />
+                  );
                 }
                 
-                const contributionText = value === 1 ? 'contribution' : 'contributions';
-                const tooltip = showRealData 
-                  ? (value > 0 
-                      ? `${value} ${contributionText} on ${dateString}`
-                      : `No contributions on ${dateString}`)
-                  : `Cell (${row}, ${col}): ${value > 0 ? `${value} contribution${value > 1 ? 's' : ''}` : "No contributions"}`;
+                const level = levelScale.getLevel(value, showRealData ? dateKey : null);
                 
                 return (
                   <div
                     key={`${row}-${col}`}
                     className={`cc-square ${level > 0 ? `alive-${level}` : ''}`}
+                    style={level > 0 && inlineLevelColors
+                      ? { backgroundColor: getLevelColor(level, levelScale.levels, paletteSize) }
+                      : undefined}
                     data-row={row}
                     data-col={col}
-                    title={tooltip}
+                    data-level={level}
+                    title={getCellTooltip(row, col)}
+                    onClick={onCellClick ? () => handleCellClick(row, col) : undefined}
                   />
                 );
               })}
@@ -446,16 +487,42 @@ const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
       
       <div className="cc-stats">
         <p>
-          <strong>{data.totalContributions}</strong> contributions in the last year
+          {emphasize(
+            selectPlural(messages.totalContributions, data.totalContributions, locale),
+            'count',
+            formatNumber(data.totalContributions, locale)
+          )}
         </p>
+        {showTypeFilter && data.layers && (
+          <div className="cc-type-filter" role="group" aria-label={messages.typeFilterLabel}>
+            {contributionTypes.map((type) => (
+              <button
+                key={type}
+                type="button"
+                className={`cc-type-btn ${activeType === type ? 'active' : ''}`}
+                aria-pressed={activeType === type}
+                onClick={() => setActiveType(type)}
+              >
+                {messages.typeFilter[type]}
+              </button>
+            ))}
+          </div>
+        )}
+        {data.userTotals && (
+          <p className="cc-user-totals">
+            {Object.keys(data.userTotals).map((login) => `${login}: ${formatNumber(data.userTotals![login], locale)}`).join(' · ')}
+          </p>
+        )}
         <p>
-          <strong>{data.username}</strong> on GitHub
+          {emphasize(messages.profile, 'username', data.username)}
         </p>
         {!showRealData && (
           <div className="cc-animation-status">
             <p>
-              <strong>Animation:</strong> {patternNames[animationState.currentPattern]} 
-              {animationState.isRunning ? ` (Running - Gen ${animationState.generation})` : ' (Paused)'}
+              <strong>{messages.animation}</strong> {messages.patterns[animationState.currentPattern]}{' '}
+              {animationState.isRunning
+                ? formatMessage(messages.running, { generation: formatNumber(animationState.generation, locale) })
+                : messages.paused}
             </p>
             <div className="cc-controls">
               <button 
@@ -463,20 +530,20 @@ const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
                 className="cc-control-btn"
                 disabled={animationState.isRunning}
               >
-                Randomize
+                {messages.randomize}
               </button>
               <button 
                 onClick={resetGrid}
                 className="cc-control-btn"
                 disabled={animationState.isRunning}
               >
-                Clear
+                {messages.clear}
               </button>
               <button 
                 onClick={() => setShowRealData(true)}
                 className="cc-control-btn"
               >
-                Show Real Data
+                {messages.showRealData}
               </button>
             </div>
           </div>
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef } from 'react';
+import { formatColor, mixColors, parseColor, RGBAColor } from '../utils/colors';
+import { getLevelPaletteMix } from '../utils/themes';
+import { OUTSIDE_CELL } from '../utils/contributionLevels';
+import { CELL_RADIUS } from '../utils/contributionGrid';
+
+export interface ContributionCanvasProps {
+  /** Level per cell (0 = empty, OUTSIDE_CELL for padding), indexed [row][col] */
+  levelGrid: number[][];
+  /** Number of grid rows */
+  rows: number;
+  /** Number of grid columns */
+  cols: number;
+  /** Size of contribution squares in pixels */
+  squareSize: number;
+  /** Gap between squares in pixels */
+  gapSize: number;
+  /** Number of non-empty levels */
+  levels: number;
+  /** Number of --cc-level-N colors to blend levels from */
+  paletteSize: number;
+  /** Changes whenever the CSS colors may have (theme, mode, class name) so the grid is redrawn */
+  styleKey: string;
+  /** Tooltip for a cell, built only when it is hovered */
+  getTooltip: (row: number, col: number) => string;
+  /** Called with the clicked cell; padding cells are ignored */
+  onCellClick?: (row: number, col: number) => void;
+  /** Accessible description of the whole grid */
+  ariaLabel?: string;
+}
+
+const traceRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, radius: number) => {
+  const r = Math.min(radius, size / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + size, y, x + size, y + size, r);
+  ctx.arcTo(x + size, y + size, x, y + size, r);
+  ctx.arcTo(x, y + size, x, y, r);
+  ctx.arcTo(x, y, x + size, y, r);
+  ctx.closePath();
+};
+
+/**
+ * Draws the grid on one <canvas>: a frame costs one paint instead of rows x cols DOM updates
+ */
+const ContributionCanvas: React.FC<ContributionCanvasProps> = ({
+  levelGrid,
+  rows,
+  cols,
+  squareSize,
+  gapSize,
+  levels,
+  paletteSize,
+  styleKey,
+  getTooltip,
+  onCellClick,
+  ariaLabel
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const hoveredCellRef = useRef<string | null>(null);
+  const pitch = squareSize + gapSize;
+  const width = Math.max(cols * pitch - gapSize, 0);
+  const height = Math.max(rows * pitch - gapSize, 0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) {
+      return;
+    }
+
+    // Back the canvas with device pixels so cells stay sharp on high-DPI screens
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    // Colors come from the CSS variables so themes, modes and stylesheet overrides all apply;
+    // the canvas normalizes any CSS color it accepts to #rrggbb or rgba()
+    const styles = getComputedStyle(canvas);
+    const read = (name: string): RGBAColor => {
+      ctx.fillStyle = '#000000';
+      ctx.fillStyle = styles.getPropertyValue(name).trim() || '#000000';
+      return parseColor(String(ctx.fillStyle)) || { r: 0, g: 0, b: 0, a: 1 };
+    };
+    const empty = formatColor(read('--cc-square-empty'));
+    const palette = Array.from({ length: paletteSize }, (_, i) => read(`--cc-level-${i + 1}`));
+    const levelColors = Array.from({ length: levels }, (_, i) => {
+      const { lower, upper, weight } = getLevelPaletteMix(i + 1, levels, paletteSize);
+      return formatColor(mixColors(palette[lower], palette[upper], weight));
+    });
+
+    ctx.lineWidth = 1;
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const level = levelGrid[row]?.[col] ?? 0;
+        const x = col * pitch;
+        const y = row * pitch;
+        if (level === OUTSIDE_CELL) {
+          // Same inset outline as .cc-outside
+          traceRoundedRect(ctx, x + 0.5, y + 0.5, squareSize - 1, CELL_RADIUS);
+          ctx.strokeStyle = empty;
+          ctx.stroke();
+          continue;
+        }
+        traceRoundedRect(ctx, x, y, squareSize, CELL_RADIUS);
+        ctx.fillStyle = level > 0 ? levelColors[Math.min(level, levels) - 1] : empty;
+        ctx.fill();
+      }
+    }
+    // styleKey: a theme or mode change alters the variables without touching the levels
+  }, [levelGrid, rows, cols, squareSize, pitch, width, height, levels, paletteSize, styleKey]);
+
+  // Grid cell under a pointer position, or null over a gap or padding cell
+  const hitTest = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const col = Math.floor(x / pitch);
+    const row = Math.floor(y / pitch);
+    if (row < 0 || col < 0 || row >= rows || col >= cols || x - col * pitch >= squareSize || y - row * pitch >= squareSize) {
+      return null;
+    }
+    return levelGrid[row]?.[col] === OUTSIDE_CELL ? null : { row, col };
+  };
+
+  // The native tooltip is set directly so hovering never re-renders the calendar
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const cell = hitTest(event);
+    const key = cell ? `${cell.row}-${cell.col}` : null;
+    if (key === hoveredCellRef.current) {
+      return;
+    }
+    hoveredCellRef.current = key;
+    canvas.title = cell ? getTooltip(cell.row, cell.col) : '';
+    canvas.style.cursor = cell ? 'pointer' : 'default';
+  };
+
+  const handleMouseLeave = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    hoveredCellRef.current = null;
+    event.currentTarget.title = '';
+  };
+
+  // The hovered cell's contents change while animating; rebuild its tooltip with the grid
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const key = hoveredCellRef.current;
+    if (canvas && key) {
+      const [row, col] = key.split('-').map(Number);
+      canvas.title = getTooltip(row, col);
+    }
+  }, [levelGrid, getTooltip]);
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const cell = hitTest(event);
+    if (cell && onCellClick) {
+      onCellClick(cell.row, cell.col);
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="cc-canvas"
+      style={{ width: `${width}px`, height: `${height}px` }}
+      role="img"
+      aria-label={ariaLabel}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={handleMouseLeave}
+      onClick={handleClick}
+    />
+  );
+};
+
+export default ContributionCanvas;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { OUTSIDE_CELL } from '../utils/contributionLevels';
+import { CELL_RADIUS } from '../utils/contributionGrid';
+import { getLevelColor } from '../utils/themes';
+
+export interface ContributionSvgProps {
+  /** Level per cell (0 = empty, OUTSIDE_CELL for padding), indexed [row][col] */
+  levelGrid: number[][];
+  /** Number of grid rows */
+  rows: number;
+  /** Number of grid columns */
+  cols: number;
+  /** Size of contribution squares in pixels */
+  squareSize: number;
+  /** Gap between squares in pixels */
+  gapSize: number;
+  /** Number of non-empty levels */
+  levels: number;
+  /** Number of --cc-level-N colors to blend levels from */
+  paletteSize: number;
+  /** Tooltip for a cell */
+  getTooltip: (row: number, col: number) => string;
+  /** Called with the clicked cell; padding cells are ignored */
+  onCellClick?: (row: number, col: number) => void;
+  /** Accessible description of the whole grid */
+  ariaLabel?: string;
+}
+
+/**
+ * Draws the grid as one <svg>; fills use the CSS variables, so it follows the theme like DOM cells
+ */
+const ContributionSvg: React.FC<ContributionSvgProps> = ({
+  levelGrid,
+  rows,
+  cols,
+  squareSize,
+  gapSize,
+  levels,
+  paletteSize,
+  getTooltip,
+  onCellClick,
+  ariaLabel
+}) => {
+  const pitch = squareSize + gapSize;
+  const width = Math.max(cols * pitch - gapSize, 0);
+  const height = Math.max(rows * pitch - gapSize, 0);
+
+  return (
+    <svg
+      className="cc-svg"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={ariaLabel}
+    >
+      {Array.from({ length: cols }, (_, col) => Array.from({ length: rows }, (_, row) => {
+        const level = levelGrid[row]?.[col] ?? 0;
+        const x = col * pitch;
+        const y = row * pitch;
+
+        if (level === OUTSIDE_CELL) {
+          // Same inset outline as .cc-outside
+          return (
+            <rect
+              key={`${row}-${col}`}
+              className="cc-svg-outside"
+              x={x + 0.5}
+              y={y + 0.5}
+              width={squareSize - 1}
+              height={squareSize - 1}
+              rx={CELL_RADIUS}
+            />
+          );
+        }
+
+        return (
+          <rect
+            key={`${row}-${col}`}
+            className="cc-svg-cell"
+            x={x}
+            y={y}
+            width={squareSize}
+            height={squareSize}
+            rx={CELL_RADIUS}
+            style={level > 0 ? { fill: getLevelColor(level, levels, paletteSize) } : undefined}
+            data-row={row}
+            data-col={col}
+            data-level={level}
+            onClick={onCellClick ? () => onCellClick(row, col) : undefined}
+          >
+            <title>{getTooltip(row, col)}</title>
+          </rect>
+        );
+      }))}
+    </svg>
+  );
+};
+
+export default ContributionSvg;
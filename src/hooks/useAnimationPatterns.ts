@@ -1,4 +1,10 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import type { PatternRandom, PatternState } from '../types';
+import {
+  createEmptyGrid as createEmptyPatternGrid,
+  createRandomGrid as createRandomPatternGrid,
+  PATTERN_ENGINES
+} from '../utils/patternEngine';
 
 export type AnimationPattern = 
   | 'gameOfLife'
@@ -14,7 +20,7 @@ export interface AnimationState {
   isRunning: boolean;
   currentPattern: AnimationPattern;
   generation: number;
-  patternState: any;
+  patternState: PatternState;
   activeLetterIndex: number | null;
   baselineGrid: number[][] | null;
 }
@@ -24,6 +30,7 @@ export interface UseAnimationPatternsOptions {
   cols: number;
   animationSpeed?: number;
   maxGenerations?: number;
+  random?: PatternRandom;
   onPatternChange?: (pattern: AnimationPattern) => void;
   onAnimationStart?: (pattern: AnimationPattern) => void;
   onAnimationStop?: () => void;
@@ -46,6 +53,7 @@ export const useAnimationPatterns = ({
   cols,
   animationSpeed = 150,
   maxGenerations = 500,
+  random = Math.random,
   onPatternChange,
   onAnimationStart,
   onAnimationStop
@@ -67,243 +75,22 @@ export const useAnimationPatterns = ({
   const lastUpdateTimeRef = useRef<number>(0);
 
   // Create empty grid
-  const createEmptyGrid = useCallback(() => {
-    return new Array(rows).fill(0).map(() => new Array(cols).fill(0));
-  }, [rows, cols]);
+  const createEmptyGrid = useCallback(() => createEmptyPatternGrid({ rows, cols }), [rows, cols]);
 
-  // Create random grid
-  const createRandomGrid = useCallback(() => {
-    return new Array(rows).fill(0).map(() => 
-      new Array(cols).fill(0).map(() => (Math.random() > 0.7 ? 1 : 0))
-    );
-  }, [rows, cols]);
-
-  // Count neighbors for Game of Life
-  const countNeighbors = useCallback((currentGrid: number[][], row: number, col: number) => {
-    let count = 0;
-    const directions = [
-      [-1, -1], [-1, 0], [-1, 1],
-      [0, -1],           [0, 1],
-      [1, -1],  [1, 0],  [1, 1],
-    ];
-
-    for (const [dr, dc] of directions) {
-      const newRow = row + dr;
-      const newCol = col + dc;
-      if (newRow >= 0 && newRow < rows && newCol >= 0 && newCol < cols) {
-        count += currentGrid[newRow][newCol];
-      }
-    }
-    return count;
-  }, [rows, cols]);
-
-  // Game of Life step
-  const gameOfLifeStep = useCallback((currentGrid: number[][]) => {
-    const newGrid = createEmptyGrid();
-    let hasChanged = false;
-    
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const neighbors = countNeighbors(currentGrid, row, col);
-        const currentCell = currentGrid[row][col];
-
-        if (currentCell === 1) {
-          newGrid[row][col] = neighbors === 2 || neighbors === 3 ? 1 : 0;
-        } else {
-          newGrid[row][col] = neighbors === 3 ? 1 : 0;
-        }
-        
-        if (newGrid[row][col] !== currentCell) {
-          hasChanged = true;
-        }
-      }
-    }
-    return { newGrid, hasChanged };
-  }, [rows, cols, countNeighbors, createEmptyGrid]);
-
-  // Ripple step
-  const rippleStep = useCallback((currentGrid: number[][], state: any) => {
-    const newGrid = createEmptyGrid();
-    const { ripples = [] } = state;
-
-    // Add new ripple occasionally
-    const newRipples = [...ripples];
-    if (Math.random() < 0.05) {
-      newRipples.push({
-        centerRow: Math.floor(Math.random() * rows),
-        centerCol: Math.floor(Math.random() * cols),
-        radius: 0,
-        maxRadius: Math.random() * 15 + 5,
-      });
-    }
-
-    // Update existing ripples
-    for (let i = newRipples.length - 1; i >= 0; i--) {
-      const ripple = newRipples[i];
-      ripple.radius += 0.5;
-
-      if (ripple.radius > ripple.maxRadius) {
-        newRipples.splice(i, 1);
-        continue;
-      }
-
-      // Draw ripple
-      for (let row = 0; row < rows; row++) {
-        for (let col = 0; col < cols; col++) {
-          const distance = Math.sqrt(
-            Math.pow(row - ripple.centerRow, 2) + Math.pow(col - ripple.centerCol, 2)
-          );
-
-          if (Math.abs(distance - ripple.radius) < 1) {
-            newGrid[row][col] = 1;
-          }
-        }
-      }
-    }
-
-    return { newGrid, hasChanged: true, patternState: { ripples: newRipples } };
-  }, [rows, cols, createEmptyGrid]);
-
-  // Wave step
-  const waveStep = useCallback((currentGrid: number[][], state: any) => {
-    const newGrid = createEmptyGrid();
-    const time = state.time || 0;
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const wave1 = Math.sin(col * 0.2 + time * 0.1);
-        const wave2 = Math.sin(row * 0.3 + time * 0.15);
-        const combined = (wave1 + wave2) / 2;
-
-        newGrid[row][col] = combined > 0.3 ? 1 : 0;
-      }
-    }
-
-    return { newGrid, hasChanged: true, patternState: { time: time + 1 } };
-  }, [rows, cols, createEmptyGrid]);
-
-  // Rain step
-  const rainStep = useCallback((currentGrid: number[][]) => {
-    const newGrid = [...currentGrid.map((row) => [...row])];
-
-    // Add new raindrops at top
-    for (let col = 0; col < cols; col++) {
-      if (Math.random() < 0.05) {
-        newGrid[0][col] = 1;
-      }
-    }
-
-    // Move existing drops down
-    for (let row = rows - 1; row > 0; row--) {
-      for (let col = 0; col < cols; col++) {
-        if (currentGrid[row - 1][col] === 1) {
-          newGrid[row][col] = 1;
-          newGrid[row - 1][col] = 0;
-        }
-      }
-    }
-
-    // Clear bottom row
-    for (let col = 0; col < cols; col++) {
-      if (Math.random() < 0.3) {
-        newGrid[rows - 1][col] = 0;
-      }
-    }
-
-    return { newGrid, hasChanged: true };
-  }, [rows, cols]);
-
-  // Spiral step
-  const spiralStep = useCallback((currentGrid: number[][], state: any) => {
-    const newGrid = createEmptyGrid();
-    const time = state.time || 0;
-    const centerRow = rows / 2;
-    const centerCol = cols / 2;
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const dx = col - centerCol;
-        const dy = row - centerRow;
-        const angle = Math.atan2(dy, dx);
-        const distance = Math.sqrt(dx * dx + dy * dy);
-
-        const spiralValue = Math.sin(angle * 3 + distance * 0.5 - time * 0.2);
-        newGrid[row][col] = spiralValue > 0.5 ? 1 : 0;
-      }
-    }
-
-    return { newGrid, hasChanged: true, patternState: { time: time + 1 } };
-  }, [rows, cols, createEmptyGrid]);
-
-  // Noise step
-  const noiseStep = useCallback((currentGrid: number[][]) => {
-    const newGrid = createEmptyGrid();
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        newGrid[row][col] = Math.random() > 0.8 ? 1 : 0;
-      }
-    }
-
-    return { newGrid, hasChanged: true };
+  // Start over with an empty grid when the dimensions change (e.g. a new date range)
+  useEffect(() => {
+    setGrid((current) => (current.length === rows && current[0]?.length === cols ? current : createEmptyGrid()));
   }, [rows, cols, createEmptyGrid]);
 
-  // Rule 30 step
-  const rule30Step = useCallback((currentGrid: number[][]) => {
-    const newGrid = [...currentGrid.map((row) => [...row])];
-
-    // Apply Rule 30 to middle row
-    const middleRow = Math.floor(rows / 2);
-    const currentRow = currentGrid[middleRow];
-
-    for (let col = 1; col < cols - 1; col++) {
-      const left = currentRow[col - 1];
-      const center = currentRow[col];
-      const right = currentRow[col + 1];
-
-      // Rule 30: 111->0, 110->0, 101->0, 100->1, 011->1, 010->1, 001->1, 000->0
-      const pattern = (left << 2) | (center << 1) | right;
-      newGrid[middleRow][col] = [0, 1, 1, 1, 1, 0, 0, 0][pattern];
-    }
-
-    // Shift other rows
-    for (let row = 0; row < rows; row++) {
-      if (row !== middleRow) {
-        for (let col = cols - 1; col > 0; col--) {
-          newGrid[row][col] = currentGrid[row][col - 1];
-        }
-        newGrid[row][0] = 0;
-      }
-    }
-
-    return { newGrid, hasChanged: true };
-  }, [rows, cols]);
+  // Create random grid
+  const createRandomGrid = useCallback(() => createRandomPatternGrid({ rows, cols }, random), [rows, cols, random]);
 
   // Execute pattern
   const executePattern = useCallback((
     currentGrid: number[][], 
     pattern: AnimationPattern, 
-    state: any
-  ): { newGrid: number[][]; hasChanged: boolean; patternState?: any } => {
-    switch (pattern) {
-      case 'gameOfLife':
-        return gameOfLifeStep(currentGrid);
-      case 'ripple':
-        return rippleStep(currentGrid, state);
-      case 'wave':
-        return waveStep(currentGrid, state);
-      case 'rain':
-        return rainStep(currentGrid);
-      case 'spiral':
-        return spiralStep(currentGrid, state);
-      case 'noise':
-        return noiseStep(currentGrid);
-      case 'rule30':
-        return rule30Step(currentGrid);
-      default:
-        return { newGrid: currentGrid, hasChanged: false };
-    }
-  }, [gameOfLifeStep, rippleStep, waveStep, rainStep, spiralStep, noiseStep, rule30Step]);
+    state: PatternState
+  ) => PATTERN_ENGINES[pattern].step(currentGrid, state, random), [random]);
 
   // Animation loop
   const animate = useCallback(() => {
@@ -320,7 +107,7 @@ export const useAnimationPatterns = ({
         setAnimationState((prevState) => {
           if (!prevState.isRunning) return prevState;
 
-          const { newGrid, hasChanged, patternState } = executePattern(
+          const { grid: newGrid, changed: hasChanged, state: patternState } = executePattern(
             currentGrid,
             prevState.currentPattern,
             prevState.patternState
@@ -344,7 +131,7 @@ export const useAnimationPatterns = ({
           return {
             ...prevState,
             generation: prevState.generation + 1,
-            patternState: patternState ?? prevState.patternState,
+            patternState,
           };
         });
 
@@ -403,16 +190,8 @@ export const useAnimationPatterns = ({
     onPatternChange?.(pattern);
 
     // Set appropriate initial state for each pattern
-    if (pattern === 'gameOfLife' || pattern === 'noise') {
-      setGrid(createRandomGrid());
-    } else if (pattern === 'rule30') {
-      const newGrid = createEmptyGrid();
-      newGrid[Math.floor(rows / 2)][Math.floor(cols / 2)] = 1;
-      setGrid(newGrid);
-    } else {
-      setGrid(createEmptyGrid());
-    }
-  }, [createRandomGrid, createEmptyGrid, rows, cols, onPatternChange]);
+    setGrid(PATTERN_ENGINES[pattern].createGrid({ rows, cols }, random));
+  }, [rows, cols, random, onPatternChange]);
 
   // Reset grid
   const resetGrid = useCallback(() => {
@@ -1,45 +1,26 @@
-import { useState, useEffect, useCallback } from 'react';
-
-export interface GitHubContributionsData {
-  grid: number[][];
-  startDate: string;
-  endDate: string;
-  totalContributions: number;
-  username: string;
-  weeks: any[];
-}
-
-export interface UseGitHubContributionsOptions {
-  /** GitHub Personal Access Token */
-  token?: string;
-  /** GitHub username */
-  username?: string;
-  /** Start date for the calendar */
-  startDate?: Date;
-  /** End date for the calendar */
-  endDate?: Date;
-  /** Number of grid rows */
-  gridRows?: number;
-  /** Number of grid columns */
-  gridCols?: number;
-  /** Enable automatic refetching */
-  autoFetch?: boolean;
-  /** Refetch interval in milliseconds */
-  refetchInterval?: number;
-}
-
-export interface UseGitHubContributionsReturn {
-  /** Contribution data */
-  data: GitHubContributionsData | null;
-  /** Loading state */
-  loading: boolean;
-  /** Error state */
-  error: string | null;
-  /** Refetch function */
-  refetch: () => Promise<void>;
-  /** Clear error function */
-  clearError: () => void;
-}
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type {
+  ContributionData,
+  ContributionError,
+  RateLimitInfo,
+  UseGitHubContributionsOptions,
+  UseGitHubContributionsReturn
+} from '../types';
+import { createGitHubSource } from '../sources/githubSource';
+import { createDataUrlSource } from '../sources/dataUrlSource';
+import { fetchContributionData } from '../utils/fetchContributionData';
+import { getDefaultDateRange } from '../utils/dates';
+import { isAbortError, toContributionError } from '../utils/contributionErrors';
+import {
+  createCacheKey,
+  isCacheEntryFresh,
+  readCacheEntry,
+  resolveCacheOptions,
+  resolveCacheStorage,
+  writeCacheEntry
+} from '../cache/contributionCache';
+
+export type { UseGitHubContributionsOptions, UseGitHubContributionsReturn };
 
 /**
  * Custom hook for fetching GitHub contribution data
@@ -47,137 +28,210 @@ export interface UseGitHubContributionsReturn {
 export const useGitHubContributions = ({
   token = process.env.NEXT_PUBLIC_GITHUB_TOKEN || '',
   username = process.env.NEXT_PUBLIC_GITHUB_USERNAME || 'octocat',
-  startDate = new Date(new Date().getFullYear(), 0, 1),
-  endDate = new Date(new Date().getFullYear(), 11, 31),
-  gridRows = 7,
-  gridCols = 53,
+  usernames,
+  aggregate = 'sum',
+  startDate: startDateOption,
+  endDate: endDateOption,
+  gridRows,
+  gridCols,
+  source,
+  dataUrl,
+  initialData,
+  organization,
+  repositories,
+  includeTypes = false,
   autoFetch = true,
-  refetchInterval = 0
+  refetchInterval = 0,
+  cache,
+  timeZone,
+  weekStartsOn = 0,
+  onDataLoad,
+  onError
 }: UseGitHubContributionsOptions = {}): UseGitHubContributionsReturn => {
-  const [data, setData] = useState<GitHubContributionsData | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Calculate date from grid position
-  const calculateDateFromGridPosition = useCallback((row: number, col: number): Date => {
-    const startWeekBegin = new Date(startDate);
-    const daysFromSunday = startDate.getDay();
-    startWeekBegin.setDate(startDate.getDate() - daysFromSunday);
-    
-    const targetDate = new Date(startWeekBegin);
-    targetDate.setDate(startWeekBegin.getDate() + (col * 7) + row);
-    
-    return targetDate;
-  }, [startDate]);
-
-  // Fetch GitHub contributions
-  const fetchContributions = useCallback(async () => {
-    if (!token) {
-      setError('GitHub token is required');
+  const [data, setData] = useState<ContributionData | null>(initialData || null);
+  const [loading, setLoading] = useState(autoFetch && !initialData);
+  const [error, setError] = useState<ContributionError | null>(null);
+  const [revalidating, setRevalidating] = useState(false);
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null);
+
+  // Stable callback (and cache option) references to prevent infinite re-renders
+  const onDataLoadRef = useRef(onDataLoad);
+  const onErrorRef = useRef(onError);
+  const cacheRef = useRef(cache);
+  // Whether a grid is on screen; later fetches then revalidate instead of showing the spinner
+  const hasDataRef = useRef(!!initialData);
+
+  useEffect(() => {
+    onDataLoadRef.current = onDataLoad;
+    onErrorRef.current = onError;
+    cacheRef.current = cache;
+  }, [onDataLoad, onError, cache]);
+
+  // Fall back to the API route, then GitHub GraphQL, when no adapter is supplied
+  const repositoriesKey = repositories ? repositories.join(',') : '';
+  const contributionSource = useMemo(
+    () => source || (dataUrl ? createDataUrlSource({ url: dataUrl }) : createGitHubSource({
+      token,
+      organization,
+      repositories: repositoriesKey ? repositoriesKey.split(',') : undefined
+    })),
+    [source, dataUrl, token, organization, repositoriesKey]
+  );
+
+  // The default range is this year in timeZone, so a zone west of the viewer's keeps January 1st
+  const defaultRange = startDateOption && endDateOption ? null : getDefaultDateRange(timeZone);
+  const startDate = startDateOption || defaultRange!.startDate;
+  const endDate = endDateOption || defaultRange!.endDate;
+
+  // Inline arrays and default dates change identity every render; key them by value instead
+  const usernamesKey = usernames ? usernames.join(',') : '';
+  const startTime = startDate.getTime();
+  const endTime = endDate.getTime();
+
+  // The latest request; identical calls while it runs share it, any other call aborts it
+  const inFlightRef = useRef<{ key: string; promise: Promise<void>; controller: AbortController } | null>(null);
+
+  const reportError = useCallback((contributionError: ContributionError) => {
+    setError(contributionError);
+    if (onErrorRef.current) {
+      onErrorRef.current(contributionError);
+    }
+  }, []);
+
+  const showData = useCallback((contributionData: ContributionData) => {
+    hasDataRef.current = true;
+    setData(contributionData);
+    if (onDataLoadRef.current) {
+      onDataLoadRef.current(contributionData);
+    }
+  }, []);
+
+  // Fetch GitHub contributions; force skips fresh cache entries (refetch)
+  const loadContributions = useCallback(async (force: boolean) => {
+    const requestKey = createCacheKey([contributionSource.id, username, usernamesKey, aggregate, startTime, endTime, gridRows, gridCols, includeTypes, timeZone, weekStartsOn]);
+    if (inFlightRef.current && inFlightRef.current.key === requestKey) {
+      return inFlightRef.current.promise;
+    }
+
+    // Only the latest request may reach state and callbacks
+    if (inFlightRef.current) {
+      inFlightRef.current.controller.abort();
+      inFlightRef.current = null;
+    }
+
+    if (!source && !dataUrl && !token) {
+      setLoading(false);
+      reportError({ kind: 'missingToken', message: 'GitHub token is required' });
       return;
     }
 
-    if (!username) {
-      setError('GitHub username is required');
+    if (!username && !usernamesKey) {
+      setLoading(false);
+      reportError({ kind: 'missingUsername', message: 'GitHub username is required' });
       return;
     }
 
-    try {
-      setLoading(true);
-      setError(null);
-
-      const query = `
-        query($login: String!) {
-          user(login: $login) {
-            contributionsCollection {
-              contributionCalendar {
-                totalContributions
-                weeks {
-                  contributionDays {
-                    date
-                    contributionCount
-                    contributionLevel
-                  }
-                }
-              }
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const run = async () => {
+      const cacheOptions = resolveCacheOptions(cacheRef.current);
+      const storage = cacheOptions ? resolveCacheStorage(cacheOptions.storage) : null;
+
+      try {
+        setError(null);
+
+        // Serve from cache; expired entries render immediately and are refreshed below
+        if (cacheOptions && storage) {
+          const entry = await readCacheEntry(storage, requestKey);
+          if (signal.aborted) {
+            return;
+          }
+          const fresh = !!entry && isCacheEntryFresh(entry, cacheOptions.ttl);
+          if (entry && (fresh || cacheOptions.staleWhileRevalidate !== false)) {
+            showData(entry.data);
+            if (fresh && !force) {
+              return;
             }
           }
         }
-      `;
-
-      const response = await fetch('https://api.github.com/graphql', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query,
-          variables: { login: username }
-        })
-      });
-
-      const result = await response.json();
-
-      if (result.errors) {
-        throw new Error(result.errors[0].message);
-      }
 
-      if (!result.data?.user?.contributionsCollection?.contributionCalendar?.weeks) {
-        throw new Error('User not found or no contribution data available');
-      }
+        if (hasDataRef.current) {
+          setLoading(false);
+          setRevalidating(true);
+        } else {
+          setLoading(true);
+        }
 
-      const weeks = result.data.user.contributionsCollection.contributionCalendar.weeks;
-      const grid: number[][] = [];
-      
-      // Initialize grid
-      for (let row = 0; row < gridRows; row++) {
-        grid[row] = new Array(gridCols).fill(0);
-      }
-      
-      // Create a map of dates to contributions from GitHub data
-      const dateContributionMap = new Map();
-      weeks.forEach((week: any) => {
-        week.contributionDays.forEach((day: any) => {
-          dateContributionMap.set(day.date, day.contributionCount);
+        const contributionData = await fetchContributionData(contributionSource, {
+          username,
+          usernames: usernamesKey ? usernamesKey.split(',') : undefined,
+          aggregate,
+          startDate: new Date(startTime),
+          endDate: new Date(endTime),
+          gridRows,
+          gridCols,
+          includeTypes,
+          timeZone,
+          weekStartsOn,
+          signal
         });
-      });
-      
-      // Fill grid based on custom date range
-      for (let col = 0; col < gridCols; col++) {
-        for (let row = 0; row < gridRows; row++) {
-          const targetDate = calculateDateFromGridPosition(row, col);
-          const dateStr = targetDate.toISOString().split('T')[0];
-          const contributionCount = dateContributionMap.get(dateStr) || 0;
-          grid[row][col] = contributionCount;
+
+        if (signal.aborted) {
+          return;
+        }
+        showData(contributionData);
+        if (storage) {
+          await writeCacheEntry(storage, requestKey, { data: contributionData, storedAt: Date.now() });
+        }
+      } catch (err) {
+        if (!signal.aborted && !isAbortError(err)) {
+          reportError(toContributionError(err));
+        }
+      } finally {
+        if (inFlightRef.current && inFlightRef.current.controller === controller) {
+          inFlightRef.current = null;
+        }
+        // A newer request owns the loading flags while it runs
+        if (!inFlightRef.current) {
+          setLoading(false);
+          setRevalidating(false);
+        }
+        if (!signal.aborted) {
+          setRateLimit(contributionSource.getRateLimit ? contributionSource.getRateLimit() : null);
         }
       }
+    };
 
-      const contributionData: GitHubContributionsData = {
-        grid,
-        startDate: startDate.toISOString().split('T')[0],
-        endDate: endDate.toISOString().split('T')[0],
-        totalContributions: result.data.user.contributionsCollection.contributionCalendar.totalContributions,
-        username,
-        weeks
-      };
-
-      setData(contributionData);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch GitHub data';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-    }
-  }, [token, username, startDate, endDate, gridRows, gridCols, calculateDateFromGridPosition]);
+    const promise = run();
+    inFlightRef.current = { key: requestKey, promise, controller };
+    return promise;
+  }, [contributionSource, source, dataUrl, token, username, usernamesKey, aggregate, startTime, endTime, gridRows, gridCols, includeTypes, timeZone, weekStartsOn, reportError, showData]);
+
+  const fetchContributions = useCallback(() => loadContributions(false), [loadContributions]);
+  const refetch = useCallback(() => loadContributions(true), [loadContributions]);
 
   // Clear error function
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
-  // Initial fetch
+  // Cancel the running request on unmount and whenever the request inputs change
+  useEffect(() => () => {
+    if (inFlightRef.current) {
+      inFlightRef.current.controller.abort();
+      inFlightRef.current = null;
+    }
+  }, [loadContributions]);
+
+  // Initial fetch (skipped once when server-fetched data was provided)
+  const skipInitialFetchRef = useRef(!!initialData);
+
   useEffect(() => {
+    if (skipInitialFetchRef.current) {
+      skipInitialFetchRef.current = false;
+      return;
+    }
     if (autoFetch) {
       fetchContributions();
     }
@@ -186,16 +240,18 @@ export const useGitHubContributions = ({
   // Auto refetch interval
   useEffect(() => {
     if (refetchInterval > 0) {
-      const interval = setInterval(fetchContributions, refetchInterval);
+      const interval = setInterval(refetch, refetchInterval);
       return () => clearInterval(interval);
     }
-  }, [refetchInterval, fetchContributions]);
+  }, [refetchInterval, refetch]);
 
   return {
     data,
     loading,
+    revalidating,
     error,
-    refetch: fetchContributions,
+    rateLimit,
+    refetch,
     clearError
   };
 };
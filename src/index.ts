@@ -10,9 +10,46 @@ export { default as ContributionCalendar } from './components/ContributionCalend
 export { useGitHubContributions } from './hooks/useGitHubContributions';
 export { useAnimationPatterns } from './hooks/useAnimationPatterns';
 
+// Data sources
+export { createGitHubSource } from './sources/githubSource';
+export type { GitHubSourceOptions } from './sources/githubSource';
+export { createGitLabSource } from './sources/gitlabSource';
+export type { GitLabSourceOptions } from './sources/gitlabSource';
+export { createDataUrlSource } from './sources/dataUrlSource';
+export type { DataUrlSourceOptions } from './sources/dataUrlSource';
+
+// Caching
+export {
+  createMemoryCacheStorage,
+  createLocalStorageCacheStorage,
+  createIndexedDBCacheStorage
+} from './cache/contributionCache';
+
+// Localization
+export { DEFAULT_MESSAGES } from './utils/messages';
+
+// Contribution levels
+export { createLevelScale, DEFAULT_LEVEL_THRESHOLDS } from './utils/contributionLevels';
+export type { LevelScale } from './utils/contributionLevels';
+
+// Themes
+export { THEMES, getThemeVariables } from './utils/themes';
+
+// Headless animation (SVG, PNG and GIF export is in animated-contribution-heatmap/server)
+export { PATTERN_ENGINES, generatePatternFrames, createSeededRandom } from './utils/patternEngine';
+export type { GeneratePatternFramesOptions } from './utils/patternEngine';
+
+// Data helpers
+export { createContributionError } from './utils/contributionErrors';
+export { createContributionData } from './utils/fetchContributionData';
+export { createCalendarDate } from './utils/dates';
+export type { CreateContributionDataOptions } from './utils/fetchContributionData';
+
 // Types
 export type {
   ContributionCalendarProps,
+  CalendarRenderer,
+  ContributionCell,
   ContributionData,
   GitHubContributionsData,
   GitHubWeek,
@@ -20,8 +57,32 @@ export type {
   UseGitHubContributionsOptions,
   UseGitHubContributionsReturn,
   GitHubAPIResponse,
+  ContributionDay,
+  ContributionSource,
+  ContributionSourceRequest,
+  TeamContributionSourceRequest,
+  TeamAggregation,
+  ContributionType,
+  ContributionLevels,
+  ContributionLevelContext,
+  GitHubContributionLevel,
+  WeekStartsOn,
+  ContributionCacheEntry,
+  ContributionCacheOptions,
+  ContributionCacheStorage,
+  RateLimitInfo,
+  ContributionError,
+  CalendarMessages,
+  CalendarMessagesOverride,
+  PluralMessage,
   AnimationPattern,
+  PatternEngine,
+  PatternStepResult,
+  PatternState,
+  PatternRandom,
   Theme,
+  ThemeMode,
+  ThemePreset,
   AnimationConfig,
   GridConfig,
   DateRange
@@ -0,0 +1,109 @@
+import type { ContributionSource, ContributionSourceRequest } from '../types';
+import { createContributionsRouteHandler, fetchContributions } from './index';
+import { toDateKey } from '../utils/dates';
+
+const get = (handler: (request: Request) => Promise<Response>, query: string) =>
+  handler(new Request(`http://localhost/api/contributions${query}`));
+
+describe('createContributionsRouteHandler', () => {
+  it('checks the default username against allowedUsernames when none is requested', async () => {
+    const handler = createContributionsRouteHandler({ allowedUsernames: ['jane'] });
+
+    const response = await get(handler, '');
+
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects more usernames than maxUsernames', async () => {
+    const handler = createContributionsRouteHandler({ maxUsernames: 2 });
+
+    const response = await get(handler, '?usernames=a,b,c');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'At most 2 usernames per request' });
+  });
+
+  it('rejects ranges longer than maxRangeDays', async () => {
+    const handler = createContributionsRouteHandler();
+
+    const response = await get(handler, '?username=jane&startDate=1900-01-01&endDate=2024-12-31');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Date range is limited to 1830 days' });
+  });
+
+  it('rejects unknown time zones and week starts outside 0-6', async () => {
+    const handler = createContributionsRouteHandler();
+
+    const zone = await get(handler, '?username=jane&timeZone=Mars/Olympus');
+    const week = await get(handler, '?username=jane&weekStartsOn=7');
+
+    expect(zone.status).toBe(400);
+    expect(await zone.json()).toEqual({ error: 'Unknown time zone' });
+    expect(week.status).toBe(400);
+    expect(await week.json()).toEqual({ error: 'weekStartsOn must be 0-6' });
+  });
+});
+
+describe('date ranges across time zones', () => {
+  const hostZone = process.env.TZ;
+  let received: ContributionSourceRequest[];
+  const source: ContributionSource = {
+    id: 'fake',
+    fetchContributions: async (request) => {
+      received.push(request);
+      return [];
+    }
+  };
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  afterEach(() => {
+    process.env.TZ = hostZone;
+  });
+
+  [
+    ['Asia/Tokyo', 'America/Los_Angeles'],
+    ['UTC', 'Pacific/Pago_Pago'],
+    ['America/New_York', 'Asia/Kolkata'],
+    ['Pacific/Kiritimati', 'UTC']
+  ].forEach(([hostTimeZone, timeZone]) => {
+    it(`defaults to this year in ${timeZone} on a host in ${hostTimeZone}`, async () => {
+      process.env.TZ = hostTimeZone;
+      const year = toDateKey(new Date(), timeZone).slice(0, 4);
+
+      const data = await fetchContributions({ source, username: 'jane', timeZone });
+
+      expect(data.startDate).toBe(`${year}-01-01`);
+      expect(data.endDate).toBe(`${year}-12-31`);
+      expect(received[0].startDate.toISOString()).toBe(`${year}-01-01T00:00:00.000Z`);
+      expect(received[0].endDate.toISOString()).toBe(`${year}-12-31T00:00:00.000Z`);
+    });
+  });
+
+  ['America/Los_Angeles', 'Asia/Tokyo'].forEach((hostTimeZone) => {
+    it(`reads route dates as calendar dates on a host in ${hostTimeZone}`, async () => {
+      process.env.TZ = hostTimeZone;
+      const handler = createContributionsRouteHandler({ source });
+
+      const response = await get(handler, '?username=jane&startDate=2024-03-01&endDate=2024-03-31');
+
+      expect(await response.json()).toMatchObject({ startDate: '2024-03-01', endDate: '2024-03-31' });
+    });
+  });
+
+  it('reads route dates in the requested time zone and lays the grid out from weekStartsOn', async () => {
+    process.env.TZ = 'Asia/Tokyo';
+    const handler = createContributionsRouteHandler({ source });
+
+    const response = await get(
+      handler,
+      '?username=jane&startDate=2024-03-01&endDate=2024-03-31&timeZone=America/Los_Angeles&weekStartsOn=1'
+    );
+
+    expect(await response.json()).toMatchObject({ startDate: '2024-03-01', endDate: '2024-03-31', weekStartsOn: 1 });
+    expect(received[0].timeZone).toBe('America/Los_Angeles');
+  });
+});
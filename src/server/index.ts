@@ -0,0 +1,283 @@
+/**
+ * Server-only helpers: fetch contributions with a token that never reaches the browser
+ */
+
+import type {
+  ContributionCacheOptions,
+  ContributionData,
+  ContributionSource,
+  TeamAggregation,
+  WeekStartsOn
+} from '../types';
+import { createGitHubSource } from '../sources/githubSource';
+import { fetchContributionData } from '../utils/fetchContributionData';
+import { toContributionError } from '../utils/contributionErrors';
+import { createCalendarDate, getDefaultDateRange } from '../utils/dates';
+import {
+  createCacheKey,
+  isCacheEntryFresh,
+  readCacheEntry,
+  resolveCacheOptions,
+  resolveCacheStorage,
+  writeCacheEntry
+} from '../cache/contributionCache';
+
+// Static rendering and encoders need no DOM; they are exported here so the browser bundle does not carry them
+export { renderContributionSvg, renderAnimatedContributionSvg } from '../utils/contributionSvg';
+export type { RenderContributionSvgOptions, RenderAnimatedContributionSvgOptions } from '../utils/contributionSvg';
+export { rasterizeContributionData } from '../utils/contributionRaster';
+export type { RasterizeContributionOptions } from '../utils/contributionRaster';
+export { encodePng, encodeApng } from '../utils/pngEncoder';
+export type { RasterImage, EncodePngOptions, EncodeApngOptions } from '../utils/pngEncoder';
+export { encodeGif } from '../utils/gifEncoder';
+export type { EncodeGifOptions } from '../utils/gifEncoder';
+export { PATTERN_ENGINES, generatePatternFrames, createSeededRandom } from '../utils/patternEngine';
+export type { GeneratePatternFramesOptions } from '../utils/patternEngine';
+export type { PatternEngine, PatternStepResult, PatternRandom, PatternState } from '../types';
+export { exportAnimation, createAnimationFrames } from '../utils/animationExport';
+export type {
+  AnimationExportFormat,
+  CreateAnimationFramesOptions,
+  ExportAnimationOptions
+} from '../utils/animationExport';
+
+export interface FetchContributionsOptions {
+  /** GitHub token (defaults to process.env.GITHUB_TOKEN) */
+  token?: string;
+  /** GitHub username */
+  username?: string;
+  /** Usernames to aggregate into one team heatmap (overrides username) */
+  usernames?: string[];
+  /** How team counts are combined per day */
+  aggregate?: TeamAggregation;
+  /** Start date for the calendar */
+  startDate?: Date;
+  /** End date for the calendar */
+  endDate?: Date;
+  /** Override the number of grid rows (defaults to 7) */
+  gridRows?: number;
+  /** Override the number of grid columns (defaults to the weeks spanned by startDate-endDate) */
+  gridCols?: number;
+  /** Data source adapter (defaults to GitHub GraphQL using token) */
+  source?: ContributionSource;
+  /** Only count contributions in this GitHub organization (default source only) */
+  organization?: string;
+  /** Only count contributions in these repositories (default source only) */
+  repositories?: string[];
+  /** Fetch per-type layers */
+  includeTypes?: boolean;
+  /** Cache responses; pass a custom storage adapter (Redis, KV) to share across instances */
+  cache?: boolean | ContributionCacheOptions;
+  /** IANA time zone that startDate/endDate are read in (defaults to the server's) */
+  timeZone?: string;
+  /** First day of each grid column (0 = Sunday, 1 = Monday) */
+  weekStartsOn?: WeekStartsOn;
+  /** Cancels the request (background cache refreshes are not cancelled) */
+  signal?: AbortSignal;
+}
+
+export interface ContributionsRouteOptions extends Omit<FetchContributionsOptions, 'username' | 'usernames' | 'startDate' | 'endDate' | 'timeZone' | 'signal'> {
+  /** Username used when the request does not name one */
+  defaultUsername?: string;
+  /** Restrict which usernames the route will fetch (checked against the default username too) */
+  allowedUsernames?: string[];
+  /** Most usernames one request may aggregate (default 10) */
+  maxUsernames?: number;
+  /** Longest range one request may ask for, in days (default 1830, about five years) */
+  maxRangeDays?: number;
+  /** Cache-Control header for successful responses */
+  cacheControl?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDefaultUsername = () => process.env.NEXT_PUBLIC_GITHUB_USERNAME || 'octocat';
+
+/**
+ * Fetch contribution data on the server
+ */
+export const fetchContributions = async ({
+  token = process.env.GITHUB_TOKEN || '',
+  username = getDefaultUsername(),
+  usernames,
+  aggregate,
+  startDate: startDateOption,
+  endDate: endDateOption,
+  gridRows,
+  gridCols,
+  source,
+  organization,
+  repositories,
+  includeTypes,
+  cache,
+  timeZone,
+  weekStartsOn,
+  signal
+}: FetchContributionsOptions = {}): Promise<ContributionData> => {
+  // This year in timeZone, so the range is not read a day early west of the server
+  const defaultRange = getDefaultDateRange(timeZone);
+  const startDate = startDateOption || defaultRange.startDate;
+  const endDate = endDateOption || defaultRange.endDate;
+  const contributionSource = source || createGitHubSource({ token, organization, repositories });
+  const load = (loadSignal?: AbortSignal) => fetchContributionData(contributionSource, {
+    username,
+    usernames,
+    aggregate,
+    startDate,
+    endDate,
+    gridRows,
+    gridCols,
+    includeTypes,
+    timeZone,
+    weekStartsOn,
+    signal: loadSignal
+  });
+
+  const cacheOptions = resolveCacheOptions(cache);
+  if (!cacheOptions) {
+    return load(signal);
+  }
+
+  const storage = resolveCacheStorage(cacheOptions.storage);
+  const key = createCacheKey([
+    contributionSource.id,
+    username,
+    usernames?.join(','),
+    aggregate,
+    startDate.getTime(),
+    endDate.getTime(),
+    gridRows,
+    gridCols,
+    includeTypes,
+    timeZone,
+    weekStartsOn
+  ]);
+  const refresh = async (refreshSignal?: AbortSignal) => {
+    const data = await load(refreshSignal);
+    await writeCacheEntry(storage, key, { data, storedAt: Date.now() });
+    return data;
+  };
+
+  const entry = await readCacheEntry(storage, key);
+  if (entry && isCacheEntryFresh(entry, cacheOptions.ttl)) {
+    return entry.data;
+  }
+  if (entry && cacheOptions.staleWhileRevalidate !== false) {
+    // Answer with the stale entry; the refresh lands in the cache for the next request
+    refresh().catch(() => undefined);
+    return entry.data;
+  }
+  return refresh(signal);
+};
+
+// YYYY-MM-DD query values; anything unparsable falls back to the default range
+const parseDateParam = (value: string | null, timeZone?: string): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  // Calendar dates are built in the zone the route reads the range in (the server's by default)
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return createCalendarDate(value, timeZone);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// IANA zone names Intl understands; anything else would fail every date lookup
+const isTimeZone = (value: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Next.js App Router route handler (app/api/contributions/route.ts):
+ *
+ *   export const GET = createContributionsRouteHandler();
+ *
+ * Accepts ?username=, ?usernames=a,b, ?startDate=, ?endDate=, ?includeTypes=1, ?timeZone=
+ * and ?weekStartsOn= and responds with ContributionData for the dataUrl prop. Requests naming too many
+ * users or too long a range are rejected with 400, since each one fans out into GitHub queries.
+ */
+export const createContributionsRouteHandler = ({
+  defaultUsername,
+  allowedUsernames,
+  maxUsernames = 10,
+  maxRangeDays = 1830,
+  cacheControl = 's-maxage=3600, stale-while-revalidate=86400',
+  ...options
+}: ContributionsRouteOptions = {}) => async (request: Request): Promise<Response> => {
+  const params = new URL(request.url).searchParams;
+  const usernames = params.get('usernames')?.split(',').filter(Boolean);
+  // The login fetchContributions would fall back to, so the allow-list covers it as well
+  const username = params.get('username') || defaultUsername || getDefaultUsername();
+  const requested = usernames && usernames.length > 0 ? usernames : [username];
+  const timeZone = params.get('timeZone') || undefined;
+  const weekStartsOnParam = params.get('weekStartsOn');
+
+  const headers = { 'Content-Type': 'application/json' };
+
+  if (timeZone && !isTimeZone(timeZone)) {
+    return new Response(JSON.stringify({ error: 'Unknown time zone' }), { status: 400, headers });
+  }
+  if (weekStartsOnParam !== null && !/^[0-6]$/.test(weekStartsOnParam)) {
+    return new Response(JSON.stringify({ error: 'weekStartsOn must be 0-6' }), { status: 400, headers });
+  }
+  const startDate = parseDateParam(params.get('startDate'), timeZone);
+  const endDate = parseDateParam(params.get('endDate'), timeZone);
+
+  if (allowedUsernames && requested.some((login) => allowedUsernames.indexOf(login) < 0)) {
+    return new Response(JSON.stringify({ error: 'Username not allowed' }), { status: 403, headers });
+  }
+  if (requested.length > maxUsernames) {
+    return new Response(JSON.stringify({ error: `At most ${maxUsernames} usernames per request` }), { status: 400, headers });
+  }
+
+  const defaultRange = getDefaultDateRange(timeZone);
+  const rangeDays = Math.round(
+    ((endDate || defaultRange.endDate).getTime() - (startDate || defaultRange.startDate).getTime()) / DAY_MS
+  ) + 1;
+  if (rangeDays > maxRangeDays) {
+    return new Response(JSON.stringify({ error: `Date range is limited to ${maxRangeDays} days` }), { status: 400, headers });
+  }
+
+  try {
+    const data = await fetchContributions({
+      ...options,
+      username,
+      usernames,
+      startDate,
+      endDate,
+      includeTypes: options.includeTypes || params.get('includeTypes') === '1',
+      timeZone,
+      weekStartsOn: weekStartsOnParam !== null ? Number(weekStartsOnParam) as WeekStartsOn : options.weekStartsOn,
+      signal: request.signal
+    });
+
+    return new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { ...headers, 'Cache-Control': cacheControl }
+    });
+  } catch (err) {
+    // Keep the structured fields so dataUrl clients receive the same ContributionError
+    const { message, ...detail } = toContributionError(err);
+    return new Response(JSON.stringify({ error: message, ...detail }), { status: 502, headers });
+  }
+};
+
+/**
+ * Pages Router getServerSideProps helper; passes the result as the initialData prop
+ *
+ *   export const getServerSideProps = createContributionsServerSideProps({ username: 'octocat' });
+ */
+export const createContributionsServerSideProps = (options: FetchContributionsOptions = {}) => async () => {
+  try {
+    const initialData = await fetchContributions(options);
+    return { props: { initialData } };
+  } catch (err) {
+    return { props: { initialData: null, error: toContributionError(err) } };
+  }
+};
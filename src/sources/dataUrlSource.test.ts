@@ -0,0 +1,73 @@
+import type { ContributionDay, ContributionSource, ContributionSourceRequest } from '../types';
+import { buildDataUrl, createDataUrlSource } from './dataUrlSource';
+import { createContributionsRouteHandler } from '../server';
+
+const range = {
+  startDate: new Date('2024-01-01T00:00:00Z'),
+  endDate: new Date('2024-01-31T00:00:00Z')
+};
+
+describe('buildDataUrl', () => {
+  it('sends the time zone and week start with the range', () => {
+    const url = buildDataUrl('/api/contributions?v=1', {
+      ...range,
+      usernames: ['jane', 'joe'],
+      includeTypes: true,
+      timeZone: 'Asia/Tokyo',
+      weekStartsOn: 1
+    });
+
+    expect(url).toBe('/api/contributions?v=1&usernames=jane%2Cjoe&startDate=2024-01-01&endDate=2024-01-31'
+      + '&includeTypes=1&timeZone=Asia%2FTokyo&weekStartsOn=1');
+  });
+
+  it('leaves out what was not set', () => {
+    expect(buildDataUrl('/api/contributions', { ...range, username: 'jane' }))
+      .toBe('/api/contributions?username=jane&startDate=2024-01-01&endDate=2024-01-31');
+  });
+});
+
+describe('createDataUrlSource (with the route handler)', () => {
+  const hostFetch = global.fetch;
+  const daysByUser: Record<string, ContributionDay[]> = {
+    jane: [{ date: '2024-01-02', count: 3, types: { commits: 2, reviews: 1 } }],
+    joe: [{ date: '2024-01-02', count: 1, types: { issues: 1 } }]
+  };
+  let received: ContributionSourceRequest[];
+
+  beforeEach(() => {
+    received = [];
+    const source: ContributionSource = {
+      id: 'fake',
+      fetchContributions: async (request) => {
+        received.push(request);
+        return daysByUser[request.username] || [];
+      }
+    };
+    const handler = createContributionsRouteHandler({ source });
+    global.fetch = ((input: string) => handler(new Request(`http://localhost${input}`))) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = hostFetch;
+  });
+
+  it('keeps per-user types when splitting a team response', async () => {
+    const days = await createDataUrlSource({ url: '/api/contributions' })
+      .fetchTeamContributions!({ ...range, usernames: ['jane', 'joe'], includeTypes: true });
+
+    expect(days).toEqual({
+      jane: [{ date: '2024-01-02', count: 3, types: { commits: 2, reviews: 1 } }],
+      joe: [{ date: '2024-01-02', count: 1, types: { issues: 1 } }]
+    });
+  });
+
+  it('passes the time zone and week start to the server', async () => {
+    await createDataUrlSource({ url: '/api/contributions' })
+      .fetchContributions({ ...range, username: 'jane', timeZone: 'America/Los_Angeles', weekStartsOn: 1 });
+
+    expect(received[0]).toMatchObject({ timeZone: 'America/Los_Angeles', weekStartsOn: 1 });
+    expect(received[0].startDate.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(received[0].endDate.toISOString()).toBe('2024-01-31T00:00:00.000Z');
+  });
+});
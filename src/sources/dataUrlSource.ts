@@ -0,0 +1,123 @@
+import type {
+  ContributionData,
+  ContributionDay,
+  ContributionError,
+  ContributionSource,
+  ContributionSourceRequest,
+  TeamContributionSourceRequest,
+  WeekStartsOn
+} from '../types';
+import { createContributionError } from '../utils/contributionErrors';
+
+export interface DataUrlSourceOptions {
+  /** URL of an endpoint returning ContributionData, e.g. the route from createContributionsRouteHandler */
+  url: string;
+  /** Extra fetch options (credentials, headers) */
+  init?: RequestInit;
+}
+
+/**
+ * Build the query string understood by createContributionsRouteHandler
+ */
+export const buildDataUrl = (
+  url: string,
+  params: {
+    username?: string;
+    usernames?: string[];
+    startDate: Date;
+    endDate: Date;
+    includeTypes?: boolean;
+    timeZone?: string;
+    weekStartsOn?: WeekStartsOn;
+  }
+): string => {
+  const search = new URLSearchParams();
+  if (params.usernames && params.usernames.length > 0) {
+    search.set('usernames', params.usernames.join(','));
+  } else if (params.username) {
+    search.set('username', params.username);
+  }
+  search.set('startDate', params.startDate.toISOString().split('T')[0]);
+  search.set('endDate', params.endDate.toISOString().split('T')[0]);
+  if (params.includeTypes) {
+    search.set('includeTypes', '1');
+  }
+  if (params.timeZone) {
+    search.set('timeZone', params.timeZone);
+  }
+  if (params.weekStartsOn !== undefined) {
+    search.set('weekStartsOn', String(params.weekStartsOn));
+  }
+  return `${url}${url.indexOf('?') >= 0 ? '&' : '?'}${search}`;
+};
+
+/**
+ * Create a contribution source that reads from your own API route instead of calling GitHub,
+ * so the access token stays on the server
+ */
+export const createDataUrlSource = ({ url, init }: DataUrlSourceOptions): ContributionSource => {
+  const load = async (requestUrl: string, signal?: AbortSignal): Promise<ContributionData> => {
+    const response = await fetch(requestUrl, { ...init, signal });
+
+    if (!response.ok) {
+      // Route handlers report failures as { error, kind, ...ContributionError fields }
+      const body = await response.json().catch(() => null);
+      if (body?.kind) {
+        const { error, ...detail } = body;
+        throw createContributionError({ ...detail, message: error } as ContributionError);
+      }
+      throw body?.error
+        ? new Error(body.error)
+        : createContributionError({
+          kind: 'network',
+          message: `HTTP error! status: ${response.status}`,
+          status: response.status
+        });
+    }
+
+    return response.json();
+  };
+
+  const fetchContributions = async ({
+    username,
+    startDate,
+    endDate,
+    includeTypes,
+    timeZone,
+    weekStartsOn,
+    signal
+  }: ContributionSourceRequest): Promise<ContributionDay[]> => {
+    const data = await load(buildDataUrl(url, { username, startDate, endDate, includeTypes, timeZone, weekStartsOn }), signal);
+    return data.days;
+  };
+
+  // The route aggregates teams server-side; split the per-user breakdown back out
+  const fetchTeamContributions = async ({
+    usernames,
+    startDate,
+    endDate,
+    includeTypes,
+    timeZone,
+    weekStartsOn,
+    signal
+  }: TeamContributionSourceRequest): Promise<Record<string, ContributionDay[]>> => {
+    const data = await load(
+      buildDataUrl(url, { usernames, startDate, endDate, includeTypes, timeZone, weekStartsOn }),
+      signal
+    );
+    const daysByUser: Record<string, ContributionDay[]> = {};
+    usernames.forEach((login) => {
+      daysByUser[login] = data.days.map((day) => {
+        const types = day.userTypes?.[login];
+        return { date: day.date, count: day.users?.[login] || 0, ...(types ? { types } : {}) };
+      });
+    });
+    return daysByUser;
+  };
+
+  return {
+    id: `url:${url}`,
+    fetchContributions,
+    fetchTeamContributions
+  };
+};
@@ -0,0 +1,168 @@
+import { createServer, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { getGitHubRateLimit, requestGitHubGraphQL } from './githubRequest';
+import { isAbortError, toContributionError } from '../utils/contributionErrors';
+
+interface Reply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Hold the response back this long */
+  delay?: number;
+}
+
+// Local stand-in for the GraphQL endpoint, answering each request with the next queued reply
+let server: Server;
+let endpoint: string;
+let replies: Reply[];
+let received: number[];
+
+beforeAll(async () => {
+  server = createServer((request, response: ServerResponse) => {
+    request.resume();
+    request.on('end', () => {
+      received.push(Date.now());
+      const { status = 200, headers = {}, body = { data: { ok: true } }, delay = 0 } = replies.shift() || {};
+      setTimeout(() => {
+        response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        response.end(JSON.stringify(body));
+      }, delay);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  replies = [];
+  received = [];
+});
+
+// Each test uses its own query so in-flight sharing never crosses tests
+let queries = 0;
+const request = (options: { signal?: AbortSignal; maxRetries?: number } = {}) =>
+  requestGitHubGraphQL<{ ok: boolean }>({
+    endpoint,
+    token: 'secret',
+    query: `query Q${++queries} { ok }`,
+    variables: {},
+    retryDelay: 1,
+    ...options
+  });
+
+describe('requestGitHubGraphQL (retries)', () => {
+  it('retries 5xx responses with backoff until one succeeds', async () => {
+    replies = [{ status: 502 }, { status: 503 }];
+
+    expect(await request()).toEqual({ ok: true });
+    expect(received).toHaveLength(3);
+  });
+
+  it('gives up after maxRetries with a network error', async () => {
+    replies = [{ status: 500 }, { status: 500 }, { status: 500 }];
+
+    const error = await request({ maxRetries: 2 }).catch(toContributionError);
+
+    expect(error).toMatchObject({ kind: 'network', status: 500 });
+    expect(received).toHaveLength(3);
+  });
+
+  it('does not retry bad credentials', async () => {
+    replies = [{ status: 401 }];
+
+    const error = await request().catch(toContributionError);
+
+    expect(error).toMatchObject({ kind: 'badCredentials' });
+    expect(received).toHaveLength(1);
+  });
+
+  it('fails fast once the primary quota is used up, keeping the reset time', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 600;
+    replies = [{
+      status: 403,
+      headers: { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }
+    }];
+
+    const error = await request().catch(toContributionError);
+
+    expect(error).toMatchObject({ kind: 'rateLimited', resetAt: new Date(reset * 1000).toISOString() });
+    expect(received).toHaveLength(1);
+    expect(getGitHubRateLimit(endpoint, 'secret')).toMatchObject({ limit: 5000, remaining: 0, used: 5000 });
+  });
+
+  it('waits for a Retry-After given in seconds', async () => {
+    replies = [{ status: 429, headers: { 'retry-after': '1' } }];
+
+    await request();
+
+    expect(received[1] - received[0]).toBeGreaterThanOrEqual(900);
+  });
+
+  it('waits for a Retry-After given as an HTTP-date', async () => {
+    // HTTP-dates have whole seconds, so this lands one to two seconds ahead
+    replies = [{ status: 429, headers: { 'retry-after': new Date(Date.now() + 2000).toUTCString() } }];
+
+    await request();
+
+    expect(received[1] - received[0]).toBeGreaterThanOrEqual(900);
+  });
+});
+
+describe('requestGitHubGraphQL (shared requests)', () => {
+  it('sends identical concurrent requests once', async () => {
+    replies = [{ delay: 50 }];
+    const shared = { endpoint, token: 'secret', query: `query Q${++queries} { ok }`, variables: { a: '1' } };
+
+    const results = await Promise.all([requestGitHubGraphQL(shared), requestGitHubGraphQL(shared)]);
+
+    expect(results).toEqual([{ ok: true }, { ok: true }]);
+    expect(received).toHaveLength(1);
+  });
+
+  it('keeps a shared request running while another caller waits, and aborts it with the last one', async () => {
+    replies = [{ delay: 100 }, { delay: 100 }];
+    const shared = { endpoint, token: 'secret', query: `query Q${++queries} { ok }`, variables: {} };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = requestGitHubGraphQL({ ...shared, signal: first.signal }).catch((err) => err);
+    const secondResult = requestGitHubGraphQL({ ...shared, signal: second.signal });
+    first.abort();
+
+    expect(isAbortError(await firstResult)).toBe(true);
+    expect(await secondResult).toEqual({ ok: true });
+
+    const third = new AbortController();
+    const thirdResult = requestGitHubGraphQL({ ...shared, signal: third.signal }).catch((err) => err);
+    third.abort();
+
+    expect(isAbortError(await thirdResult)).toBe(true);
+    // The aborted request is no longer shared: the next caller sends a new one instead of sharing the abort
+    expect(await requestGitHubGraphQL(shared)).toEqual({ ok: true });
+  });
+
+  it('never aborts a request a caller without a signal is waiting for', async () => {
+    replies = [{ delay: 100 }];
+    const shared = { endpoint, token: 'secret', query: `query Q${++queries} { ok }`, variables: {} };
+    const controller = new AbortController();
+
+    const unsignalled = requestGitHubGraphQL(shared);
+    const signalled = requestGitHubGraphQL({ ...shared, signal: controller.signal }).catch((err) => err);
+    controller.abort();
+
+    expect(isAbortError(await signalled)).toBe(true);
+    expect(await unsignalled).toEqual({ ok: true });
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(isAbortError(await request({ signal: controller.signal }).catch((err) => err))).toBe(true);
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,269 @@
+import type { RateLimitInfo } from '../types';
+import { createAbortError, createContributionError } from '../utils/contributionErrors';
+
+export interface GitHubRequestOptions {
+  /** GraphQL endpoint */
+  endpoint: string;
+  /** GitHub Personal Access Token */
+  token: string;
+  /** GraphQL query */
+  query: string;
+  /** Query variables */
+  variables: Record<string, string>;
+  /** Retries for network failures, 5xx and secondary rate limits (default 3) */
+  maxRetries?: number;
+  /** Base delay in milliseconds, doubled on every retry (default 1000) */
+  retryDelay?: number;
+  /** Cancels this caller's request; a shared request is aborted once all its callers abort */
+  signal?: AbortSignal;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers with a signal still waiting for the result */
+  subscribers: number;
+  /** A caller without a signal is waiting, so the request is never aborted */
+  pinned: boolean;
+}
+
+interface GitHubGraphQLResponse<T> {
+  data?: T & { rateLimit?: GitHubRateLimitField | null };
+  errors?: Array<{ message: string; type?: string; path?: Array<string | number> }>;
+}
+
+interface GitHubRateLimitField {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+}
+
+/** Selection appended to queries so every response reports its quota */
+export const RATE_LIMIT_FIELDS = 'rateLimit { limit remaining used resetAt }';
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// Module-level so every source instance (and every calendar on the page) shares them
+const inFlightRequests = new Map<string, InFlightRequest>();
+const rateLimits = new Map<string, RateLimitInfo>();
+
+const quotaKey = (endpoint: string, token: string) => `${endpoint}|${token}`;
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort);
+});
+
+const backoff = (attempt: number, retryDelay: number) =>
+  Math.min(retryDelay * Math.pow(2, attempt) + Math.random() * retryDelay, MAX_RETRY_DELAY);
+
+// Retry-After is either delay seconds or an HTTP-date; null when it is neither
+const parseRetryAfter = (value: string | null): number | null => {
+  if (value === null) {
+    return null;
+  }
+  if (/^\s*\d+\s*$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const readRateLimitHeaders = (headers: Headers): RateLimitInfo | null => {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) {
+    return null;
+  }
+  const used = headers.get('x-ratelimit-used');
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: used === null ? Number(limit) - Number(remaining) : Number(used),
+    resetAt: new Date(Number(reset) * 1000).toISOString()
+  };
+};
+
+const rateLimitError = (rateLimit: RateLimitInfo | null) =>
+  createContributionError({
+    kind: 'rateLimited',
+    message: 'GitHub API rate limit exceeded',
+    resetAt: rateLimit ? rateLimit.resetAt : null
+  });
+
+/**
+ * Latest quota seen for a token, from response headers or the rateLimit GraphQL field
+ */
+export const getGitHubRateLimit = (endpoint: string, token: string): RateLimitInfo | null =>
+  rateLimits.get(quotaKey(endpoint, token)) || null;
+
+const send = async <T>(
+  {
+    endpoint,
+    token,
+    query,
+    variables,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryDelay = DEFAULT_RETRY_DELAY
+  }: GitHubRequestOptions,
+  signal: AbortSignal
+): Promise<T> => {
+  const key = quotaKey(endpoint, token);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, variables }),
+        signal
+      });
+    } catch (err) {
+      if (signal.aborted) {
+        throw err;
+      }
+      // Network failure
+      if (attempt >= maxRetries) {
+        throw createContributionError({
+          kind: 'network',
+          message: err instanceof Error && err.message ? err.message : 'Network request failed'
+        });
+      }
+      await wait(backoff(attempt, retryDelay), signal);
+      continue;
+    }
+
+    const headerRateLimit = readRateLimitHeaders(response.headers);
+    if (headerRateLimit) {
+      rateLimits.set(key, headerRateLimit);
+    }
+
+    if (!response.ok) {
+      const retryAfter = response.headers.get('retry-after');
+      const body = await response.text().catch(() => '');
+      const limited = response.status === 403 || response.status === 429;
+
+      if (response.status === 401) {
+        throw createContributionError({ kind: 'badCredentials', message: 'Bad credentials', status: response.status });
+      }
+
+      // Primary quota exhausted: retrying before the reset cannot succeed
+      if (limited && headerRateLimit && headerRateLimit.remaining === 0 && retryAfter === null) {
+        throw rateLimitError(headerRateLimit);
+      }
+
+      const secondary = limited && (response.status === 429 || retryAfter !== null || /secondary rate limit/i.test(body));
+      if ((secondary || response.status >= 500) && attempt < maxRetries) {
+        const retryAfterDelay = parseRetryAfter(retryAfter);
+        await wait(retryAfterDelay !== null ? retryAfterDelay : backoff(attempt, retryDelay), signal);
+        continue;
+      }
+
+      throw secondary
+        ? rateLimitError(headerRateLimit)
+        : createContributionError({
+          kind: 'network',
+          message: `HTTP error! status: ${response.status}`,
+          status: response.status
+        });
+    }
+
+    const result: GitHubGraphQLResponse<T> = await response.json();
+
+    if (result.data?.rateLimit) {
+      const { limit, remaining, used, resetAt } = result.data.rateLimit;
+      rateLimits.set(key, { limit, remaining, used, resetAt });
+    }
+
+    if (result.errors) {
+      if (result.errors.some((error) => error.type === 'RATE_LIMITED')) {
+        throw rateLimitError(getGitHubRateLimit(endpoint, token));
+      }
+      const [first] = result.errors;
+      throw createContributionError({
+        kind: 'graphql',
+        message: first?.message || 'GraphQL error',
+        path: first?.path,
+        type: first?.type
+      });
+    }
+
+    return result.data as T;
+  }
+};
+
+/**
+ * POST a GraphQL query to GitHub, retrying transient failures with exponential backoff.
+ * Identical requests made while one is running share it.
+ */
+export const requestGitHubGraphQL = <T>({ signal, ...options }: GitHubRequestOptions): Promise<T> => {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const requestKey = [options.endpoint, options.token, options.query, JSON.stringify(options.variables)].join('|');
+  let entry = inFlightRequests.get(requestKey);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      promise: send<T>(options, controller.signal),
+      controller,
+      subscribers: 0,
+      pinned: false
+    };
+    const settle = () => {
+      if (inFlightRequests.get(requestKey) === created) {
+        inFlightRequests.delete(requestKey);
+      }
+    };
+    created.promise.then(settle, settle);
+    inFlightRequests.set(requestKey, created);
+    entry = created;
+  }
+
+  const shared = entry;
+  if (!signal) {
+    shared.pinned = true;
+    return shared.promise as Promise<T>;
+  }
+
+  shared.subscribers++;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.subscribers--;
+      if (shared.subscribers === 0 && !shared.pinned) {
+        shared.controller.abort();
+        if (inFlightRequests.get(requestKey) === shared) {
+          inFlightRequests.delete(requestKey);
+        }
+      }
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort);
+    shared.promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+};
@@ -0,0 +1,309 @@
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { ContributionType } from '../types';
+import { createGitHubSource, splitDateRange } from './githubSource';
+import { isAbortError, toContributionError } from '../utils/contributionErrors';
+
+interface FakeContribution {
+  type: ContributionType;
+  repository: string;
+  occurredAt: string;
+}
+
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, string>;
+}
+
+const GROUPS: Record<string, ContributionType> = {
+  commitContributionsByRepository: 'commits',
+  issueContributionsByRepository: 'issues',
+  pullRequestContributionsByRepository: 'pullRequests',
+  pullRequestReviewContributionsByRepository: 'reviews'
+};
+
+// Local stand-in for the GraphQL API, answering from each login's list of contributions
+let server: Server;
+let endpoint: string;
+let contributions: Record<string, FakeContribution[]>;
+let requests: GraphQLRequest[];
+
+const inWindow = (occurredAt: string, from: string, to: string) => occurredAt >= from && occurredAt <= to;
+
+// Like GitHub: commits are one node per repository and day, every list is capped at 100
+const byRepository = (items: FakeContribution[], type: ContributionType) => {
+  const repositories = new Map<string, Array<{ occurredAt: string; commitCount?: number }>>();
+  items.filter((item) => item.type === type).forEach(({ repository, occurredAt }) => {
+    const nodes = repositories.get(repository) || [];
+    repositories.set(repository, nodes);
+    const day = type === 'commits' ? nodes.find((node) => node.occurredAt.slice(0, 10) === occurredAt.slice(0, 10)) : null;
+    if (day) {
+      day.commitCount! += 1;
+    } else {
+      nodes.push(type === 'commits' ? { occurredAt, commitCount: 1 } : { occurredAt });
+    }
+  });
+  return Array.from(repositories.keys()).slice(0, 100).map((nameWithOwner) => ({
+    repository: { nameWithOwner },
+    contributions: { totalCount: repositories.get(nameWithOwner)!.length, nodes: repositories.get(nameWithOwner)!.slice(0, 100) }
+  }));
+};
+
+const calendar = (items: FakeContribution[], from: string, to: string) => {
+  const counts = new Map<string, number>();
+  items.forEach(({ occurredAt }) => counts.set(occurredAt.slice(0, 10), (counts.get(occurredAt.slice(0, 10)) || 0) + 1));
+  const contributionDays = [];
+  for (const day = new Date(from); day.toISOString() <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().slice(0, 10);
+    contributionDays.push({ date, contributionCount: counts.get(date) || 0, contributionLevel: counts.get(date) ? 'FIRST_QUARTILE' : 'NONE' });
+  }
+  return { totalContributions: items.length, weeks: [{ contributionDays }] };
+};
+
+const respond = ({ query, variables }: GraphQLRequest) => {
+  const data: Record<string, unknown> = {};
+  query.split(/(?=\bu\d+: user\()/).slice(1).forEach((block) => {
+    const [, alias, loginVariable] = /^(u\d+): user\(login: \$(\w+)\)/.exec(block)!;
+    const login = variables[loginVariable];
+    if (!contributions[login]) {
+      data[alias] = null;
+      return;
+    }
+    const user: Record<string, unknown> = {};
+    block.split(/(?=\b\w+: contributionsCollection\()/).slice(1).forEach((collectionBlock) => {
+      const [, name, fromVariable, toVariable] = /^(\w+): contributionsCollection\(from: \$(\w+), to: \$(\w+)/.exec(collectionBlock)!;
+      const from = variables[fromVariable];
+      const to = variables[toVariable];
+      const items = contributions[login].filter((item) => inWindow(item.occurredAt, from, to));
+      const collection: Record<string, unknown> = {};
+      if (collectionBlock.indexOf('contributionCalendar') >= 0) {
+        collection.contributionCalendar = calendar(items, from, to);
+      }
+      Object.keys(GROUPS).forEach((field) => {
+        if (collectionBlock.indexOf(field) >= 0) {
+          collection[field] = byRepository(items, GROUPS[field]);
+        }
+      });
+      user[name] = collection;
+    });
+    data[alias] = user;
+  });
+
+  const missing = Object.keys(data).find((alias) => data[alias] === null);
+  return missing
+    ? { data, errors: [{ type: 'NOT_FOUND', path: [missing], message: 'Could not resolve to a User' }] }
+    : { data };
+};
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const parsed = JSON.parse(body) as GraphQLRequest;
+      requests.push(parsed);
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(respond(parsed)));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const range = {
+  username: 'jane',
+  startDate: new Date('2024-01-01T00:00:00Z'),
+  endDate: new Date('2024-12-31T00:00:00Z')
+};
+
+// One commit on each of `days` days from January 1st, 2024
+const dailyCommits = (repository: string, days: number): FakeContribution[] =>
+  Array.from({ length: days }, (_, i) => ({
+    type: 'commits' as const,
+    repository,
+    occurredAt: new Date(Date.UTC(2024, 0, 1 + i, 12)).toISOString()
+  }));
+
+describe('splitDateRange', () => {
+  it('keeps a range of up to one year in one window', () => {
+    expect(splitDateRange(new Date('2024-01-01T00:00:00Z'), new Date('2024-12-31T00:00:00Z'))).toEqual([
+      { from: '2024-01-01T00:00:00.000Z', to: '2024-12-31T23:59:59Z' }
+    ]);
+  });
+
+  it('splits longer ranges into consecutive windows shorter than a year', () => {
+    expect(splitDateRange(new Date('2022-06-15T00:00:00Z'), new Date('2024-09-01T00:00:00Z'))).toEqual([
+      { from: '2022-06-15T00:00:00.000Z', to: '2023-06-14T23:59:59Z' },
+      { from: '2023-06-15T00:00:00.000Z', to: '2024-06-14T23:59:59Z' },
+      { from: '2024-06-15T00:00:00.000Z', to: '2024-09-01T23:59:59Z' }
+    ]);
+  });
+
+  it('returns no windows when the range ends before it starts', () => {
+    expect(splitDateRange(new Date('2024-02-01T00:00:00Z'), new Date('2024-01-01T00:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('createGitHubSource (multi-year ranges)', () => {
+  it('stitches every window of a multi-year range into one list of days', async () => {
+    contributions = {
+      jane: ['2022-06-15T12:00:00Z', '2023-06-14T12:00:00Z', '2023-06-15T12:00:00Z', '2024-09-01T12:00:00Z']
+        .map((occurredAt) => ({ type: 'commits' as const, repository: 'octo/app', occurredAt }))
+    };
+
+    const days = await createGitHubSource({ token: 'secret', endpoint }).fetchContributions({
+      username: 'jane',
+      startDate: new Date('2022-06-15T00:00:00Z'),
+      endDate: new Date('2024-09-01T00:00:00Z')
+    });
+
+    // One request with a calendar per window
+    expect(requests).toHaveLength(1);
+    expect(Object.keys(requests[0].variables).filter((name) => /^from/.test(name))).toHaveLength(3);
+    expect(days).toHaveLength(810);
+    expect(days[0].date).toBe('2022-06-15');
+    expect(days[days.length - 1].date).toBe('2024-09-01');
+    expect(new Set(days.map((day) => day.date)).size).toBe(days.length);
+    expect(days.filter((day) => day.count > 0).map((day) => day.date)).toEqual([
+      '2022-06-15',
+      '2023-06-14',
+      '2023-06-15',
+      '2024-09-01'
+    ]);
+  });
+});
+
+describe('createGitHubSource (repository breakdowns)', () => {
+  it('splits windows whose repository contributions fill a page until every day is counted', async () => {
+    contributions = { jane: [...dailyCommits('octo/app', 250), ...dailyCommits('octo/other', 3)] };
+
+    const days = await createGitHubSource({ token: 'secret', endpoint, repositories: ['octo/app'] }).fetchContributions(range);
+
+    expect(days).toHaveLength(250);
+    expect(days.reduce((total, day) => total + day.count, 0)).toBe(250);
+    expect(requests.length).toBeGreaterThan(1);
+  });
+
+  it('splits windows that list a full page of repositories', async () => {
+    contributions = {
+      jane: Array.from({ length: 120 }, (_, i) => ({
+        type: 'issues' as const,
+        repository: `octo/repo-${i}`,
+        occurredAt: new Date(Date.UTC(2024, 0, 1 + i, 12)).toISOString()
+      }))
+    };
+
+    const days = await createGitHubSource({ token: 'secret', endpoint, repositories: ['octo/repo-110'] })
+      .fetchContributions(range);
+
+    expect(days).toEqual([{ date: '2024-04-20', count: 1 }]);
+  });
+
+  it('fills type layers past the first page and keeps calendar totals', async () => {
+    contributions = {
+      jane: [
+        ...dailyCommits('octo/app', 150),
+        { type: 'reviews', repository: 'octo/app', occurredAt: '2024-05-29T09:00:00Z' }
+      ]
+    };
+
+    const days = await createGitHubSource({ token: 'secret', endpoint }).fetchContributions({ ...range, includeTypes: true });
+
+    const typeTotal = (type: ContributionType) => days.reduce((total, day) => total + (day.types?.[type] || 0), 0);
+    expect(typeTotal('commits')).toBe(150);
+    expect(typeTotal('reviews')).toBe(1);
+    expect(days.find((day) => day.date === '2024-05-29')).toEqual({
+      date: '2024-05-29',
+      count: 2,
+      level: 1,
+      types: { commits: 1, reviews: 1 }
+    });
+  });
+
+  it('pages the type layers of each team member on their own', async () => {
+    contributions = {
+      jane: dailyCommits('octo/app', 180),
+      joe: dailyCommits('octo/web', 20)
+    };
+
+    const daysByUser = await createGitHubSource({ token: 'secret', endpoint })
+      .fetchTeamContributions!({ ...range, usernames: ['jane', 'joe'], includeTypes: true });
+
+    const commits = (login: string) => daysByUser[login].reduce((total, day) => total + (day.types?.commits || 0), 0);
+    expect(commits('jane')).toBe(180);
+    expect(commits('joe')).toBe(20);
+    // Only jane's windows are fetched again
+    expect(requests.slice(1).every(({ variables }) => Object.keys(variables)
+      .filter((name) => /^login/.test(name))
+      .every((name) => variables[name] === 'jane'))).toBe(true);
+  });
+
+  it('buckets contribution timestamps into dates of the requested time zone', async () => {
+    contributions = {
+      jane: [
+        { type: 'pullRequests', repository: 'octo/app', occurredAt: '2024-03-10T02:00:00Z' },
+        // December 31st in Los Angeles, already 2025 in UTC
+        { type: 'pullRequests', repository: 'octo/app', occurredAt: '2025-01-01T03:00:00Z' },
+        // December 31st, 2023 in Los Angeles: before the range
+        { type: 'pullRequests', repository: 'octo/app', occurredAt: '2024-01-01T05:00:00Z' }
+      ]
+    };
+
+    const days = await createGitHubSource({ token: 'secret', endpoint, repositories: ['app'] })
+      .fetchContributions({ ...range, timeZone: 'America/Los_Angeles' });
+
+    expect(days).toEqual([
+      { date: '2024-03-09', count: 1 },
+      { date: '2024-12-31', count: 1 }
+    ]);
+  });
+});
+
+describe('createGitHubSource (abort)', () => {
+  it('sends nothing when the signal is already aborted', async () => {
+    contributions = { jane: [] };
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await createGitHubSource({ token: 'secret', endpoint })
+      .fetchContributions({ ...range, signal: controller.signal })
+      .catch((err) => err);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects with an abort error when the signal aborts mid-request', async () => {
+    contributions = { jane: dailyCommits('octo/app', 10) };
+    const controller = new AbortController();
+
+    const pending = createGitHubSource({ token: 'secret', endpoint })
+      .fetchContributions({ ...range, signal: controller.signal })
+      .catch((err) => err);
+    controller.abort();
+
+    expect(isAbortError(await pending)).toBe(true);
+  });
+});
+
+describe('createGitHubSource (errors)', () => {
+  it('maps an unknown login to userNotFound', async () => {
+    contributions = { jane: [] };
+
+    const error = await createGitHubSource({ token: 'secret', endpoint })
+      .fetchTeamContributions!({ ...range, usernames: ['jane', 'ghost'] })
+      .catch(toContributionError);
+
+    expect(error).toMatchObject({ kind: 'userNotFound', username: 'ghost' });
+  });
+});
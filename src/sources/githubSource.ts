@@ -0,0 +1,508 @@
+import type {
+  ContributionDay,
+  ContributionSource,
+  ContributionSourceRequest,
+  ContributionType,
+  GitHubContributionLevel,
+  GitHubWeek,
+  TeamContributionSourceRequest
+} from '../types';
+import { getGitHubRateLimit, RATE_LIMIT_FIELDS, requestGitHubGraphQL } from './githubRequest';
+import { createContributionError, toContributionError } from '../utils/contributionErrors';
+import { addDays, dateKeyToUTC, daysBetween, toDateKey } from '../utils/dates';
+import { createTokenFingerprint } from '../cache/contributionCache';
+
+export const GITHUB_GRAPHQL_ENDPOINT = 'https://api.github.com/graphql';
+
+export interface GitHubSourceOptions {
+  /** GitHub Personal Access Token */
+  token: string;
+  /** GraphQL endpoint (override for GitHub Enterprise Server) */
+  endpoint?: string;
+  /** Organization login; only contributions made in this organization are counted */
+  organization?: string;
+  /** Repositories to count ('owner/name', or 'name' within organization) */
+  repositories?: string[];
+  /** Retries for network failures, 5xx and secondary rate limits (default 3) */
+  maxRetries?: number;
+  /** Base retry delay in milliseconds, doubled on every retry (default 1000) */
+  retryDelay?: number;
+}
+
+interface GitHubRepositoryContributions {
+  repository: { nameWithOwner: string };
+  contributions: {
+    /** Contributions in the window, including any past the first page */
+    totalCount: number;
+    nodes: Array<{
+      occurredAt: string;
+      commitCount?: number;
+    }>;
+  };
+}
+
+interface GitHubCollection {
+  contributionCalendar?: {
+    totalContributions: number;
+    weeks: GitHubWeek[];
+  };
+  commitContributionsByRepository?: GitHubRepositoryContributions[];
+  issueContributionsByRepository?: GitHubRepositoryContributions[];
+  pullRequestContributionsByRepository?: GitHubRepositoryContributions[];
+  pullRequestReviewContributionsByRepository?: GitHubRepositoryContributions[];
+}
+
+// Aliased collections of one user in a response
+type UserCollections = Record<string, GitHubCollection | undefined>;
+
+export interface GitHubDateWindow {
+  /** ISO DateTime for the contributionsCollection `from` argument */
+  from: string;
+  /** ISO DateTime for the contributionsCollection `to` argument */
+  to: string;
+}
+
+interface CollectionQuery {
+  /** Alias of the contributionsCollection field */
+  alias: string;
+  /** Range the collection covers */
+  window: GitHubDateWindow;
+  /** Fields selected on the collection */
+  fields: string;
+}
+
+interface UserQuery {
+  login: string;
+  collections: CollectionQuery[];
+}
+
+// Per-repository breakdown fields and the contribution type each one feeds
+const REPOSITORY_GROUPS: Record<
+  'commitContributionsByRepository'
+  | 'issueContributionsByRepository'
+  | 'pullRequestContributionsByRepository'
+  | 'pullRequestReviewContributionsByRepository',
+  ContributionType
+> = {
+  commitContributionsByRepository: 'commits',
+  issueContributionsByRepository: 'issues',
+  pullRequestContributionsByRepository: 'pullRequests',
+  pullRequestReviewContributionsByRepository: 'reviews'
+};
+
+/**
+ * Split a date range into windows GitHub accepts.
+ * contributionsCollection rejects from/to spans longer than one year.
+ */
+export const splitDateRange = (startDate: Date, endDate: Date): GitHubDateWindow[] => {
+  const windows: GitHubDateWindow[] = [];
+  const cursor = new Date(startDate.toISOString().split('T')[0] + 'T00:00:00Z');
+  const last = new Date(endDate.toISOString().split('T')[0] + 'T00:00:00Z');
+
+  while (cursor <= last) {
+    // Window end: one day short of a year after the cursor, capped at the range end
+    const windowEnd = new Date(cursor);
+    windowEnd.setUTCFullYear(windowEnd.getUTCFullYear() + 1);
+    windowEnd.setUTCDate(windowEnd.getUTCDate() - 1);
+    const end = windowEnd < last ? windowEnd : last;
+
+    windows.push({
+      from: cursor.toISOString(),
+      to: end.toISOString().split('T')[0] + 'T23:59:59Z'
+    });
+
+    cursor.setTime(end.getTime());
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return windows;
+};
+
+// GitHub caps maxRepositories and connection page size at 100
+const PAGE_SIZE = 100;
+
+const BY_REPOSITORY_FIELDS = `
+        commitContributionsByRepository(maxRepositories: ${PAGE_SIZE}) {
+          repository { nameWithOwner }
+          contributions(first: ${PAGE_SIZE}) { totalCount nodes { occurredAt commitCount } }
+        }
+        issueContributionsByRepository(maxRepositories: ${PAGE_SIZE}) {
+          repository { nameWithOwner }
+          contributions(first: ${PAGE_SIZE}) { totalCount nodes { occurredAt } }
+        }
+        pullRequestContributionsByRepository(maxRepositories: ${PAGE_SIZE}) {
+          repository { nameWithOwner }
+          contributions(first: ${PAGE_SIZE}) { totalCount nodes { occurredAt } }
+        }
+        pullRequestReviewContributionsByRepository(maxRepositories: ${PAGE_SIZE}) {
+          repository { nameWithOwner }
+          contributions(first: ${PAGE_SIZE}) { totalCount nodes { occurredAt } }
+        }`;
+
+// GitHub's levels in ascending order; the index is the numeric level
+const CONTRIBUTION_LEVELS: GitHubContributionLevel[] = ['NONE', 'FIRST_QUARTILE', 'SECOND_QUARTILE', 'THIRD_QUARTILE', 'FOURTH_QUARTILE'];
+
+const CALENDAR_FIELDS = `
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              date
+              contributionCount
+              contributionLevel
+            }
+          }
+        }`;
+
+// One aliased user per entry and one aliased contributionsCollection per window, all in a single request
+const buildContributionsQuery = (
+  users: UserQuery[],
+  organizationId?: string
+): { query: string; variables: Record<string, string> } => {
+  const variables: Record<string, string> = {};
+  const loginVariables: string[] = [];
+  const windowVariables: string[] = [];
+  const windowIndexes = new Map<string, number>();
+  const organizationArgument = organizationId ? ', organizationID: $organizationId' : '';
+
+  // Windows shared by several users share their variables
+  const windowIndex = ({ from, to }: GitHubDateWindow): number => {
+    const key = `${from}|${to}`;
+    let index = windowIndexes.get(key);
+    if (index === undefined) {
+      index = windowIndexes.size;
+      windowIndexes.set(key, index);
+      variables[`from${index}`] = from;
+      variables[`to${index}`] = to;
+      windowVariables.push(`$from${index}: DateTime!, $to${index}: DateTime!`);
+    }
+    return index;
+  };
+
+  const selections = users.map(({ login, collections }, j) => {
+    variables[`login${j}`] = login;
+    loginVariables.push(`$login${j}: String!`);
+    const fields = collections.map(({ alias, window, fields: collectionFields }) => {
+      const i = windowIndex(window);
+      return `
+      ${alias}: contributionsCollection(from: $from${i}, to: $to${i}${organizationArgument}) {${collectionFields}
+      }`;
+    }).join('');
+    return `
+    u${j}: user(login: $login${j}) {${fields}
+    }`;
+  });
+
+  const organizationVariable = organizationId ? ['$organizationId: ID!'] : [];
+  if (organizationId) {
+    variables.organizationId = organizationId;
+  }
+
+  return {
+    query: `
+  query(${loginVariables.concat(windowVariables, organizationVariable).join(', ')}) {${selections.join('')}
+    ${RATE_LIMIT_FIELDS}
+  }
+`,
+    variables
+  };
+};
+
+// A breakdown is cut off when a list or one repository's contributions filled a whole page
+const isTruncated = (collection: GitHubCollection): boolean =>
+  (Object.keys(REPOSITORY_GROUPS) as Array<keyof typeof REPOSITORY_GROUPS>).some((field) => {
+    const group = collection[field] || [];
+    return group.length >= PAGE_SIZE
+      || group.some(({ contributions }) => contributions.nodes.length < contributions.totalCount);
+  });
+
+/**
+ * Halve a window of whole days; null for a single day, which cannot be split further
+ */
+const splitWindow = ({ from, to }: GitHubDateWindow): GitHubDateWindow[] | null => {
+  const first = from.split('T')[0];
+  const days = daysBetween(first, to.split('T')[0]) + 1;
+  if (days < 2) {
+    return null;
+  }
+  const middle = addDays(first, Math.floor(days / 2) - 1);
+  return [
+    { from, to: `${middle}T23:59:59Z` },
+    { from: `${addDays(middle, 1)}T00:00:00Z`, to }
+  ];
+};
+
+/**
+ * Create a contribution source backed by the GitHub GraphQL API
+ */
+export const createGitHubSource = ({
+  token,
+  endpoint = GITHUB_GRAPHQL_ENDPOINT,
+  organization,
+  repositories,
+  maxRetries,
+  retryDelay
+}: GitHubSourceOptions): ContributionSource => {
+  const repositoryFilter = (repositories || []).map((name) => name.toLowerCase());
+  let organizationIdPromise: Promise<string> | null = null;
+
+  const request = <T>(query: string, variables: Record<string, string>, signal?: AbortSignal): Promise<T> =>
+    requestGitHubGraphQL<T>({ endpoint, token, query, variables, maxRetries, retryDelay, signal });
+
+  // organizationID takes a node ID, so resolve the login once per source
+  const resolveOrganizationId = (): Promise<string> => {
+    if (!organizationIdPromise) {
+      organizationIdPromise = request<{ organization: { id: string } | null }>(
+        `query($login: String!) { organization(login: $login) { id } ${RATE_LIMIT_FIELDS} }`,
+        { login: organization! }
+      ).then((data) => {
+        if (!data?.organization) {
+          throw createContributionError({
+            kind: 'graphql',
+            message: `Organization "${organization}" not found`,
+            path: ['organization'],
+            type: 'NOT_FOUND'
+          });
+        }
+        return data.organization.id;
+      });
+      // Allow a retry after a failed lookup
+      organizationIdPromise.catch(() => {
+        organizationIdPromise = null;
+      });
+    }
+    return organizationIdPromise;
+  };
+
+  const matchesRepository = (nameWithOwner: string): boolean => {
+    const [owner, name] = nameWithOwner.toLowerCase().split('/');
+    return repositoryFilter.some((filter) =>
+      filter.indexOf('/') >= 0
+        ? filter === `${owner}/${name}`
+        : filter === name && (!organization || owner === organization.toLowerCase())
+    );
+  };
+
+  const dayFor = (days: Map<string, ContributionDay>, date: string): ContributionDay => {
+    let day = days.get(date);
+    if (!day) {
+      day = { date, count: 0 };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  // Per-day, per-type counts from the per-repository breakdowns, limited to the repository filter
+  const countByRepository = (
+    collection: GitHubCollection,
+    days: Map<string, ContributionDay>,
+    from: string,
+    to: string,
+    { countTotal, countTypes, timeZone }: { countTotal: boolean; countTypes: boolean; timeZone?: string }
+  ) => {
+    (Object.keys(REPOSITORY_GROUPS) as Array<keyof typeof REPOSITORY_GROUPS>).forEach((field) => {
+      const type = REPOSITORY_GROUPS[field];
+      (collection[field] || []).forEach(({ repository, contributions }) => {
+        if (repositoryFilter.length > 0 && !matchesRepository(repository.nameWithOwner)) {
+          return;
+        }
+        contributions.nodes.forEach((node) => {
+          const date = toDateKey(new Date(node.occurredAt), timeZone);
+          if (date < from || date > to) {
+            return;
+          }
+          const amount = node.commitCount ?? 1;
+          const day = dayFor(days, date);
+          if (countTotal) {
+            day.count += amount;
+          }
+          if (countTypes) {
+            day.types = day.types || {};
+            day.types[type] = (day.types[type] || 0) + amount;
+          }
+        });
+      });
+    });
+  };
+
+  const countByCalendar = (collection: GitHubCollection, days: Map<string, ContributionDay>, from: string, to: string) => {
+    collection.contributionCalendar!.weeks.forEach((week) => {
+      week.contributionDays.forEach((day) => {
+        if (day.date >= from && day.date <= to) {
+          const entry = dayFor(days, day.date);
+          entry.count = day.contributionCount;
+          entry.level = CONTRIBUTION_LEVELS.indexOf(day.contributionLevel);
+        }
+      });
+    });
+  };
+
+  const userNotFound = (logins: string[], login: string) =>
+    createContributionError({
+      kind: 'userNotFound',
+      message: logins.length > 1
+        ? `User "${login}" not found or no contribution data available`
+        : 'User not found or no contribution data available',
+      username: login
+    });
+
+  // Unknown logins come back as NOT_FOUND on their `uN` alias
+  const requestCollections = (
+    users: UserQuery[],
+    logins: string[],
+    organizationId: string | undefined,
+    signal?: AbortSignal
+  ): Promise<Record<string, UserCollections | null>> => {
+    const { query, variables } = buildContributionsQuery(users, organizationId);
+    return request<Record<string, UserCollections | null>>(query, variables, signal).catch((err) => {
+      const detail = toContributionError(err);
+      const alias = detail.kind === 'graphql' && detail.type === 'NOT_FOUND' && detail.path
+        ? /^u(\d+)$/.exec(String(detail.path[0]))
+        : null;
+      if (alias) {
+        throw userNotFound(logins, users[Number(alias[1])].login);
+      }
+      throw err;
+    });
+  };
+
+  const fetchUsers = async (
+    logins: string[],
+    startDate: Date,
+    endDate: Date,
+    includeTypes = false,
+    timeZone?: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, ContributionDay[]>> => {
+    if (!token) {
+      throw createContributionError({ kind: 'missingToken', message: 'GitHub token is required' });
+    }
+
+    const daysByUser: Record<string, ContributionDay[]> = {};
+    const windows = splitDateRange(startDate, endDate);
+    if (windows.length === 0 || logins.length === 0) {
+      logins.forEach((login) => {
+        daysByUser[login] = [];
+      });
+      return daysByUser;
+    }
+
+    const from = windows[0].from.split('T')[0];
+    const to = windows[windows.length - 1].to.split('T')[0];
+
+    // A repository filter can only be applied to the per-repository breakdowns
+    const filtered = repositoryFilter.length > 0;
+    const calendar = !filtered;
+    // Timestamps are bucketed in timeZone, so the breakdowns reach a day past each end of the range
+    const breakdownWindows = filtered || includeTypes
+      ? splitDateRange(dateKeyToUTC(addDays(from, -1)), dateKeyToUTC(addDays(to, 1)))
+      : [];
+    const organizationId = organization ? await resolveOrganizationId() : undefined;
+
+    const data = await requestCollections(
+      logins.map((login) => ({
+        login,
+        collections: [
+          ...(calendar ? windows.map((window, i) => ({ alias: `c${i}`, window, fields: CALENDAR_FIELDS })) : []),
+          ...breakdownWindows.map((window, i) => ({ alias: `r${i}`, window, fields: BY_REPOSITORY_FIELDS }))
+        ]
+      })),
+      logins,
+      organizationId,
+      signal
+    );
+
+    // Breakdowns that filled a page are halved and fetched again until every list fits
+    const breakdowns: Record<string, GitHubCollection[]> = {};
+    let pending: Array<{ login: string; window: GitHubDateWindow; collection?: GitHubCollection }> = [];
+    logins.forEach((login, j) => {
+      const user = data?.[`u${j}`];
+      const incomplete = (calendar && windows.some((_, i) => !user?.[`c${i}`]?.contributionCalendar?.weeks))
+        || breakdownWindows.some((_, i) => !user?.[`r${i}`]);
+      if (!user || incomplete) {
+        throw userNotFound(logins, login);
+      }
+      breakdowns[login] = [];
+      breakdownWindows.forEach((window, i) => {
+        pending.push({ login, window, collection: user[`r${i}`] });
+      });
+    });
+
+    while (pending.length > 0) {
+      const retries: Array<{ login: string; window: GitHubDateWindow }> = [];
+      pending.forEach(({ login, window, collection }) => {
+        if (!collection) {
+          throw userNotFound(logins, login);
+        }
+        // A single day past the page size cannot be split, so it keeps its first page
+        const halves = isTruncated(collection) ? splitWindow(window) : null;
+        if (halves) {
+          halves.forEach((half) => retries.push({ login, window: half }));
+        } else {
+          breakdowns[login].push(collection);
+        }
+      });
+      if (retries.length === 0) {
+        break;
+      }
+
+      const retried = await requestCollections(
+        retries.map(({ login, window }) => ({ login, collections: [{ alias: 'r', window, fields: BY_REPOSITORY_FIELDS }] })),
+        logins,
+        organizationId,
+        signal
+      );
+      pending = retries.map(({ login, window }, n) => ({ login, window, collection: retried?.[`u${n}`]?.r }));
+    }
+
+    logins.forEach((login, j) => {
+      const user = data![`u${j}`]!;
+
+      // Merge every window into one date-keyed list, dropping padding days outside the range
+      const days = new Map<string, ContributionDay>();
+      if (calendar) {
+        windows.forEach((_, i) => countByCalendar(user[`c${i}`]!, days, from, to));
+      }
+      breakdowns[login].forEach((collection) => {
+        countByRepository(collection, days, from, to, { countTotal: filtered, countTypes: includeTypes, timeZone });
+      });
+
+      daysByUser[login] = Array.from(days.keys())
+        .sort()
+        .map((date) => days.get(date)!);
+    });
+
+    return daysByUser;
+  };
+
+  const fetchContributions = async ({
+    username,
+    startDate,
+    endDate,
+    includeTypes,
+    timeZone,
+    signal
+  }: ContributionSourceRequest): Promise<ContributionDay[]> => {
+    const daysByUser = await fetchUsers([username], startDate, endDate, includeTypes, timeZone, signal);
+    return daysByUser[username];
+  };
+
+  const fetchTeamContributions = ({ usernames, startDate, endDate, includeTypes, timeZone, signal }: TeamContributionSourceRequest) =>
+    fetchUsers(usernames, startDate, endDate, includeTypes, timeZone, signal);
+
+  return {
+    // Filters, endpoint and token are part of the identity so cached responses never mix
+    id: [
+      'github',
+      endpoint === GITHUB_GRAPHQL_ENDPOINT ? '' : endpoint,
+      organization || '',
+      repositoryFilter.join(','),
+      token ? createTokenFingerprint(token) : ''
+    ]
+      .join(':')
+      .replace(/:+$/, ''),
+    fetchContributions,
+    fetchTeamContributions,
+    getRateLimit: () => getGitHubRateLimit(endpoint, token)
+  };
+};
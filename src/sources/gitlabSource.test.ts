@@ -0,0 +1,160 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createGitLabSource } from './gitlabSource';
+import { toContributionError } from '../utils/contributionErrors';
+
+type Handler = (request: IncomingMessage, url: URL, response: ServerResponse) => void;
+
+// Local stand-in for a GitLab instance; each test installs its own handler
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: URL[];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url || '/', baseUrl);
+    requests.push(url);
+    handler(request, url, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const sendJson = (response: ServerResponse, body: unknown, headers: Record<string, string> = {}, status = 200) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+};
+
+const range = {
+  username: 'jane',
+  startDate: new Date('2024-03-01T00:00:00Z'),
+  endDate: new Date('2024-03-31T00:00:00Z')
+};
+
+describe('createGitLabSource (events)', () => {
+  it('follows X-Next-Page and asks for a window two days wider than the range', async () => {
+    handler = (request, url, response) => {
+      if (url.searchParams.get('page') === '1') {
+        sendJson(response, [
+          { created_at: '2024-03-02T10:00:00Z' },
+          { created_at: '2024-03-02T11:00:00Z' },
+          // Outside the range: trimmed
+          { created_at: '2024-02-28T12:00:00Z' }
+        ], { 'X-Next-Page': '2' });
+      } else {
+        sendJson(response, [{ created_at: '2024-03-31T23:00:00Z' }], { 'X-Next-Page': '' });
+      }
+    };
+
+    const days = await createGitLabSource({ baseUrl, token: 'secret' }).fetchContributions(range);
+
+    expect(days).toEqual([
+      { date: '2024-03-02', count: 2 },
+      { date: '2024-03-31', count: 1 }
+    ]);
+    expect(requests.map((url) => url.searchParams.get('page'))).toEqual(['1', '2']);
+    expect(requests[0].pathname).toBe('/api/v4/users/jane/events');
+    expect(requests[0].searchParams.get('after')).toBe('2024-02-28');
+    expect(requests[0].searchParams.get('before')).toBe('2024-04-02');
+  });
+
+  it('keeps paging while pages are full when X-Next-Page is missing', async () => {
+    handler = (request, url, response) => {
+      const page = Number(url.searchParams.get('page'));
+      sendJson(response, page < 3 ? [{ created_at: '2024-03-05T12:00:00Z' }, { created_at: '2024-03-06T12:00:00Z' }] : []);
+    };
+
+    const days = await createGitLabSource({ baseUrl, perPage: 2 }).fetchContributions(range);
+
+    expect(requests).toHaveLength(3);
+    expect(days).toEqual([
+      { date: '2024-03-05', count: 2 },
+      { date: '2024-03-06', count: 2 }
+    ]);
+  });
+
+  it('buckets events into dates of the requested time zone', async () => {
+    handler = (request, url, response) => {
+      sendJson(response, [{ created_at: '2024-03-10T02:00:00Z' }], { 'X-Next-Page': '' });
+    };
+
+    const days = await createGitLabSource({ baseUrl }).fetchContributions({ ...range, timeZone: 'America/Los_Angeles' });
+
+    expect(days).toEqual([{ date: '2024-03-09', count: 1 }]);
+  });
+
+  it('sends the token as PRIVATE-TOKEN', async () => {
+    let token: string | string[] | undefined;
+    handler = (request, url, response) => {
+      token = request.headers['private-token'];
+      sendJson(response, [], { 'X-Next-Page': '' });
+    };
+
+    await createGitLabSource({ baseUrl, token: 'secret' }).fetchContributions(range);
+
+    expect(token).toBe('secret');
+  });
+});
+
+describe('createGitLabSource (errors)', () => {
+  const fetchError = async () => {
+    try {
+      await createGitLabSource({ baseUrl }).fetchContributions(range);
+    } catch (err) {
+      return toContributionError(err);
+    }
+    throw new Error('Expected the request to fail');
+  };
+
+  it('maps 401 to badCredentials', async () => {
+    handler = (request, url, response) => sendJson(response, { message: '401 Unauthorized' }, {}, 401);
+
+    expect(await fetchError()).toMatchObject({ kind: 'badCredentials', status: 401 });
+  });
+
+  it('maps 404 to userNotFound', async () => {
+    handler = (request, url, response) => sendJson(response, { message: '404 User Not Found' }, {}, 404);
+
+    expect(await fetchError()).toMatchObject({ kind: 'userNotFound', username: 'jane' });
+  });
+
+  it('maps 429 to rateLimited with the reset time', async () => {
+    handler = (request, url, response) => sendJson(response, {}, { 'RateLimit-Reset': '1710000000' }, 429);
+
+    expect(await fetchError()).toMatchObject({
+      kind: 'rateLimited',
+      resetAt: new Date(1710000000 * 1000).toISOString()
+    });
+  });
+
+  it('maps other failures to network errors', async () => {
+    handler = (request, url, response) => sendJson(response, {}, {}, 502);
+
+    expect(await fetchError()).toMatchObject({ kind: 'network', status: 502 });
+  });
+});
+
+describe('createGitLabSource (calendar)', () => {
+  it('reads the profile calendar and trims it to the range', async () => {
+    handler = (request, url, response) => {
+      sendJson(response, { '2024-02-29': 4, '2024-03-03': 1, '2024-03-01': 2, '2024-04-01': 7 });
+    };
+
+    const days = await createGitLabSource({ baseUrl, mode: 'calendar' }).fetchContributions(range);
+
+    expect(requests[0].pathname).toBe('/users/jane/calendar.json');
+    expect(days).toEqual([
+      { date: '2024-03-01', count: 2 },
+      { date: '2024-03-03', count: 1 }
+    ]);
+  });
+});
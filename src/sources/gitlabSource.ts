@@ -0,0 +1,134 @@
+import type { ContributionDay, ContributionSource, ContributionSourceRequest } from '../types';
+import { createContributionError } from '../utils/contributionErrors';
+import { addDays, toDateKey } from '../utils/dates';
+import { createTokenFingerprint } from '../cache/contributionCache';
+
+export const GITLAB_BASE_URL = 'https://gitlab.com';
+
+export interface GitLabSourceOptions {
+  /** Instance URL, e.g. https://gitlab.example.com (defaults to gitlab.com) */
+  baseUrl?: string;
+  /** Personal or project access token with read_api / read_user scope */
+  token?: string;
+  /**
+   * 'events' counts the user's events via the REST API (honors the date range, needs a token
+   * for private activity); 'calendar' reads the public profile calendar (trailing year only)
+   */
+  mode?: 'events' | 'calendar';
+  /** Page size for the events API (max 100) */
+  perPage?: number;
+}
+
+interface GitLabEvent {
+  created_at: string;
+}
+
+// GitLab's after/before filters are exclusive UTC dates; widen by two days each side so events
+// near the edges still arrive when bucketed in another zone, then trim to the range
+const shiftDate = (date: Date, days: number): string =>
+  addDays(date.toISOString().split('T')[0], days);
+
+/**
+ * Create a contribution source backed by a GitLab instance
+ */
+export const createGitLabSource = ({
+  baseUrl = GITLAB_BASE_URL,
+  token,
+  mode = 'events',
+  perPage = 100
+}: GitLabSourceOptions = {}): ContributionSource => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = token ? { 'PRIVATE-TOKEN': token } : {};
+
+  const request = async (url: string, username: string, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(url, { headers, signal });
+
+    if (response.status === 404) {
+      throw createContributionError({
+        kind: 'userNotFound',
+        message: 'User not found or no contribution data available',
+        username
+      });
+    }
+
+    if (response.status === 401) {
+      throw createContributionError({ kind: 'badCredentials', message: 'Bad credentials', status: response.status });
+    }
+
+    if (response.status === 429) {
+      // RateLimit-Reset is a Unix timestamp in seconds
+      const reset = response.headers.get('ratelimit-reset');
+      throw createContributionError({
+        kind: 'rateLimited',
+        message: 'GitLab API rate limit exceeded',
+        resetAt: reset ? new Date(Number(reset) * 1000).toISOString() : null
+      });
+    }
+
+    if (!response.ok) {
+      throw createContributionError({
+        kind: 'network',
+        message: `HTTP error! status: ${response.status}`,
+        status: response.status
+      });
+    }
+
+    return response;
+  };
+
+  const fetchCalendar = async ({ username, startDate, endDate, signal }: ContributionSourceRequest): Promise<ContributionDay[]> => {
+    const response = await request(`${root}/users/${encodeURIComponent(username)}/calendar.json`, username, signal);
+    const calendar: Record<string, number> = await response.json();
+
+    const from = startDate.toISOString().split('T')[0];
+    const to = endDate.toISOString().split('T')[0];
+
+    return Object.keys(calendar)
+      .filter((date) => date >= from && date <= to)
+      .sort()
+      .map((date) => ({ date, count: calendar[date] }));
+  };
+
+  const fetchEvents = async ({ username, startDate, endDate, timeZone, signal }: ContributionSourceRequest): Promise<ContributionDay[]> => {
+    const counts = new Map<string, number>();
+    const from = startDate.toISOString().split('T')[0];
+    const to = endDate.toISOString().split('T')[0];
+    let page: number | null = 1;
+
+    while (page) {
+      const params = new URLSearchParams({
+        after: shiftDate(startDate, -2),
+        before: shiftDate(endDate, 2),
+        per_page: String(perPage),
+        page: String(page)
+      });
+      const response = await request(`${root}/api/v4/users/${encodeURIComponent(username)}/events?${params}`, username, signal);
+      const events: GitLabEvent[] = await response.json();
+
+      events.forEach((event) => {
+        const date = toDateKey(new Date(event.created_at), timeZone);
+        if (date >= from && date <= to) {
+          counts.set(date, (counts.get(date) || 0) + 1);
+        }
+      });
+
+      // Follow X-Next-Page; without the header, keep going while pages come back full
+      const nextPage = response.headers.get('x-next-page');
+      if (nextPage !== null) {
+        page = nextPage ? Number(nextPage) : null;
+      } else {
+        page = events.length === perPage ? page + 1 : null;
+      }
+    }
+
+    return Array.from(counts.keys())
+      .sort()
+      .map((date) => ({ date, count: counts.get(date) || 0 }));
+  };
+
+  return {
+    // Private events depend on the token, so it is part of the identity
+    id: `gitlab:${root}:${mode}${token ? `:${createTokenFingerprint(token)}` : ''}`,
+    fetchContributions: mode === 'calendar' ? fetchCalendar : fetchEvents
+  };
+};
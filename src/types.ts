@@ -2,13 +2,19 @@
  * TypeScript type definitions for React Animated GitHub Contribution Calendar
  */
 
+import type { ReactNode } from 'react';
+
 export interface ContributionCalendarProps {
   /** GitHub Personal Access Token */
   githubToken?: string;
   /** GitHub username to display */
   username?: string;
-  /** Theme: 'light' or 'dark' */
-  theme?: 'light' | 'dark';
+  /** Usernames to aggregate into one team heatmap (overrides username) */
+  usernames?: string[];
+  /** How team counts are combined per day */
+  aggregate?: TeamAggregation;
+  /** Theme: 'light', 'dark' or a Theme object (see THEMES for presets) */
+  theme?: ThemeMode | Theme;
   /** Start date for the calendar */
   startDate?: Date;
   /** End date for the calendar */
@@ -21,10 +27,48 @@ export interface ContributionCalendarProps {
   squareSize?: number;
   /** Gap between squares in pixels */
   gapSize?: number;
-  /** Number of grid rows */
+  /** Draw cells as DOM elements, on one canvas (fastest for large grids and animations) or as one SVG */
+  renderer?: CalendarRenderer;
+  /** Override the number of grid rows (defaults to 7) */
   gridRows?: number;
-  /** Number of grid columns */
+  /** Override the number of grid columns (defaults to the weeks spanned by startDate-endDate) */
   gridCols?: number;
+  /** Data source adapter (defaults to GitHub GraphQL using githubToken) */
+  source?: ContributionSource;
+  /** Read data from your own API route (see createContributionsRouteHandler) instead of GitHub */
+  dataUrl?: string;
+  /** Server-fetched data to render immediately, skipping the initial request */
+  initialData?: ContributionData | null;
+  /** Controlled mode: data (or a raw day list) to render; no network request is made */
+  data?: ContributionData | ContributionDay[] | null;
+  /** Only count contributions in this GitHub organization (default source only) */
+  organization?: string;
+  /** Only count contributions in these repositories (default source only) */
+  repositories?: string[];
+  /** Contribution type layer to display */
+  contributionType?: ContributionType | 'all';
+  /** Show the contribution type selector in the stats area */
+  showTypeFilter?: boolean;
+  /** How counts map to color levels (defaults to thresholds 1, 3, 6, 11) */
+  levels?: ContributionLevels;
+  /** Show month names above the grid */
+  showMonthLabels?: boolean;
+  /** Show weekday names beside the grid */
+  showWeekdayLabels?: boolean;
+  /** BCP 47 locale for dates, numbers and plurals, e.g. 'de-DE' (defaults to the viewer's) */
+  locale?: string;
+  /** Override any user-facing string (see CalendarMessages) */
+  messages?: CalendarMessagesOverride;
+  /** Fetch automatically on mount and when inputs change */
+  autoFetch?: boolean;
+  /** Refetch interval in milliseconds (0 disables) */
+  refetchInterval?: number;
+  /** Cache responses (true uses in-memory storage with default TTL) */
+  cache?: boolean | ContributionCacheOptions;
+  /** IANA time zone that startDate/endDate are read in, e.g. 'Europe/Berlin' (defaults to the viewer's) */
+  timeZone?: string;
+  /** First day of the week (0 = Sunday, 1 = Monday) */
+  weekStartsOn?: WeekStartsOn;
   /** Custom CSS class name */
   className?: string;
   /** Callback when animation starts */
@@ -33,8 +77,28 @@ export interface ContributionCalendarProps {
   onAnimationStop?: () => void;
   /** Callback when data is loaded */
   onDataLoad?: (data: ContributionData) => void;
+  /** Callback when a cell inside the date range is clicked */
+  onCellClick?: (cell: ContributionCell) => void;
   /** Callback when error occurs */
-  onError?: (error: Error) => void;
+  onError?: (error: ContributionError) => void;
+  /** Custom error UI; retry refetches */
+  renderError?: (error: ContributionError, retry: () => void) => ReactNode;
+}
+
+/** How the component draws its cells */
+export type CalendarRenderer = 'dom' | 'canvas' | 'svg';
+
+export interface ContributionCell {
+  /** Grid row (day of the week) */
+  row: number;
+  /** Grid column (week) */
+  col: number;
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+  /** Count shown in the cell: contributions, or the animation value while animating */
+  count: number;
+  /** Color level (0 = empty) */
+  level: number;
 }
 
 export interface ContributionData {
@@ -46,13 +110,167 @@ export interface ContributionData {
   endDate: string;
   /** Total number of contributions */
   totalContributions: number;
-  /** GitHub username */
+  /** GitHub username (comma-separated list for team heatmaps) */
+  username: string;
+  /** Per-day contribution counts returned by the source */
+  days: ContributionDay[];
+  /** Usernames aggregated into this grid (team heatmaps) */
+  usernames?: string[];
+  /** Per-user contribution totals (team heatmaps) */
+  userTotals?: Record<string, number>;
+  /** Per-type grids parallel to grid (when a breakdown was requested) */
+  layers?: Record<ContributionType, number[][]>;
+  /** First day of each grid column (0 = Sunday); omitted means Sunday */
+  weekStartsOn?: WeekStartsOn;
+}
+
+/** Day a week (grid column) starts on: 0 = Sunday, 1 = Monday, ... 6 = Saturday */
+export type WeekStartsOn = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** @deprecated Use ContributionData; raw GitHub weeks are no longer exposed */
+export type GitHubContributionsData = ContributionData;
+
+export interface ContributionDay {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Number of contributions on this day */
+  count: number;
+  /** Per-user counts when several users are aggregated */
+  users?: Record<string, number>;
+  /** Per-type counts when a breakdown was requested */
+  types?: Partial<Record<ContributionType, number>>;
+  /** Per-user type counts when several users are aggregated with a breakdown */
+  userTypes?: Record<string, Partial<Record<ContributionType, number>>>;
+  /** Level assigned by the source (0-4), e.g. GitHub's contributionLevel; single-user totals only */
+  level?: number;
+}
+
+/**
+ * How contribution counts map to color levels; level 0 is an empty cell.
+ * - thresholds: level N starts at thresholds[N - 1] (ascending), one level per threshold
+ * - quantiles: split the displayed non-zero counts into equal-sized groups
+ * - native: the level the source assigned (GitHub), falling back to four quantiles
+ * - custom: getLevel returns 0..levels for each count
+ */
+export type ContributionLevels =
+  | { kind: 'thresholds'; thresholds: number[] }
+  | { kind: 'quantiles'; levels?: number }
+  | { kind: 'native' }
+  | { kind: 'custom'; levels: number; getLevel: (count: number, context: ContributionLevelContext) => number };
+
+export interface ContributionLevelContext {
+  /** Calendar date of the cell (YYYY-MM-DD), or null for animation cells */
+  date: string | null;
+  /** Displayed non-zero counts, sorted ascending */
+  counts: number[];
+  /** Highest displayed count */
+  max: number;
+}
+
+/** Kinds of contribution kept as separate layers */
+export type ContributionType = 'commits' | 'pullRequests' | 'reviews' | 'issues';
+
+/** How per-user counts are combined in a team heatmap */
+export type TeamAggregation = 'sum' | 'average';
+
+export interface ContributionSourceRequest {
+  /** Username to fetch contributions for */
   username: string;
+  /** First calendar date of the range, as UTC midnight (toISOString().split('T')[0] is the date) */
+  startDate: Date;
+  /** Last calendar date of the range, as UTC midnight */
+  endDate: Date;
+  /** Also fill ContributionDay.types */
+  includeTypes?: boolean;
+  /** IANA time zone of the calendar; use it to bucket timestamps into dates */
+  timeZone?: string;
+  /** First day of each grid column of the calendar (0 = Sunday) */
+  weekStartsOn?: WeekStartsOn;
+  /** Aborted when the result is no longer needed */
+  signal?: AbortSignal;
+}
+
+export interface ContributionSource {
+  /** Source identifier (e.g. 'github') */
+  id: string;
+  /** Fetch per-day contribution counts for a user and date range */
+  fetchContributions: (request: ContributionSourceRequest) => Promise<ContributionDay[]>;
+  /** Optional batched fetch for several users, keyed by username */
+  fetchTeamContributions?: (request: TeamContributionSourceRequest) => Promise<Record<string, ContributionDay[]>>;
+  /** Latest known API quota, when the source tracks one */
+  getRateLimit?: () => RateLimitInfo | null;
+}
+
+export interface RateLimitInfo {
+  /** Requests (or GraphQL points) allowed per window */
+  limit: number;
+  /** Requests (or points) left in the current window */
+  remaining: number;
+  /** Requests (or points) used in the current window */
+  used: number;
+  /** ISO timestamp when the window resets */
+  resetAt: string;
+}
+
+export interface TeamContributionSourceRequest {
+  /** Usernames to fetch contributions for */
+  usernames: string[];
+  /** First calendar date of the range, as UTC midnight (toISOString().split('T')[0] is the date) */
+  startDate: Date;
+  /** Last calendar date of the range, as UTC midnight */
+  endDate: Date;
+  /** Also fill ContributionDay.types */
+  includeTypes?: boolean;
+  /** IANA time zone of the calendar; use it to bucket timestamps into dates */
+  timeZone?: string;
+  /** First day of each grid column of the calendar (0 = Sunday) */
+  weekStartsOn?: WeekStartsOn;
+  /** Aborted when the result is no longer needed */
+  signal?: AbortSignal;
+}
+
+/** Structured fetch failure; switch on `kind` to render tailored UI */
+export type ContributionError =
+  /** No token for a source that needs one */
+  | { kind: 'missingToken'; message: string }
+  /** Neither username nor usernames was given */
+  | { kind: 'missingUsername'; message: string }
+  /** The token was rejected */
+  | { kind: 'badCredentials'; message: string; status: number }
+  /** The user does not exist or has no contribution data */
+  | { kind: 'userNotFound'; message: string; username?: string }
+  /** Quota exhausted; resetAt is an ISO timestamp when known */
+  | { kind: 'rateLimited'; message: string; resetAt: string | null }
+  /** The request failed or the server answered with an unexpected status */
+  | { kind: 'network'; message: string; status?: number }
+  /** The GraphQL API reported an error */
+  | { kind: 'graphql'; message: string; path?: Array<string | number>; type?: string }
+  /** Anything else a source threw */
+  | { kind: 'unknown'; message: string };
+
+export interface ContributionCacheEntry {
+  /** Cached contribution data */
+  data: ContributionData;
+  /** Epoch milliseconds when the entry was written */
+  storedAt: number;
 }
 
-export interface GitHubContributionsData extends ContributionData {
-  /** Raw weeks data from GitHub API */
-  weeks: GitHubWeek[];
+export interface ContributionCacheStorage {
+  /** Read an entry (sync or async) */
+  get: (key: string) => ContributionCacheEntry | null | Promise<ContributionCacheEntry | null>;
+  /** Write an entry (sync or async) */
+  set: (key: string, entry: ContributionCacheEntry) => void | Promise<void>;
+  /** Remove an entry */
+  delete?: (key: string) => void | Promise<void>;
+}
+
+export interface ContributionCacheOptions {
+  /** Built-in storage name or a custom adapter (e.g. Redis on the server) */
+  storage?: 'memory' | 'localStorage' | 'indexedDB' | ContributionCacheStorage;
+  /** Time in milliseconds an entry is served without revalidating (default 1 hour) */
+  ttl?: number;
+  /** Render expired entries immediately while refetching in the background (default true) */
+  staleWhileRevalidate?: boolean;
 }
 
 export interface GitHubWeek {
@@ -65,37 +283,70 @@ export interface GitHubContributionDay {
   date: string;
   /** Number of contributions on this day */
   contributionCount: number;
-  /** Contribution level (0-4) */
-  contributionLevel: number;
+  /** Contribution level, quartiles of the user's own counts */
+  contributionLevel: GitHubContributionLevel;
 }
 
+/** GitHub's ContributionLevel enum */
+export type GitHubContributionLevel = 'NONE' | 'FIRST_QUARTILE' | 'SECOND_QUARTILE' | 'THIRD_QUARTILE' | 'FOURTH_QUARTILE';
+
 export interface UseGitHubContributionsOptions {
   /** GitHub Personal Access Token */
   token?: string;
   /** GitHub username */
   username?: string;
+  /** Usernames to aggregate into one team heatmap (overrides username) */
+  usernames?: string[];
+  /** How team counts are combined per day */
+  aggregate?: TeamAggregation;
   /** Start date for the calendar */
   startDate?: Date;
   /** End date for the calendar */
   endDate?: Date;
-  /** Number of grid rows */
+  /** Override the number of grid rows (defaults to 7) */
   gridRows?: number;
-  /** Number of grid columns */
+  /** Override the number of grid columns (defaults to the weeks spanned by startDate-endDate) */
   gridCols?: number;
+  /** Data source adapter (defaults to GitHub GraphQL using token) */
+  source?: ContributionSource;
+  /** Read data from your own API route (see createContributionsRouteHandler) instead of GitHub */
+  dataUrl?: string;
+  /** Server-fetched data to start from, skipping the initial request */
+  initialData?: ContributionData | null;
+  /** Only count contributions in this GitHub organization (default source only) */
+  organization?: string;
+  /** Only count contributions in these repositories (default source only) */
+  repositories?: string[];
+  /** Fetch per-type layers (commits, pull requests, reviews, issues) */
+  includeTypes?: boolean;
   /** Enable automatic refetching */
   autoFetch?: boolean;
   /** Refetch interval in milliseconds */
   refetchInterval?: number;
+  /** Cache responses (true uses in-memory storage with default TTL) */
+  cache?: boolean | ContributionCacheOptions;
+  /** IANA time zone that startDate/endDate are read in, e.g. 'Europe/Berlin' (defaults to the viewer's) */
+  timeZone?: string;
+  /** First day of the week (0 = Sunday, 1 = Monday) */
+  weekStartsOn?: WeekStartsOn;
+  /** Callback when data is loaded */
+  onDataLoad?: (data: ContributionData) => void;
+  /** Callback when error occurs */
+  onError?: (error: ContributionError) => void;
 }
 
 export interface UseGitHubContributionsReturn {
   /** Contribution data */
-  data: GitHubContributionsData | null;
+  data: ContributionData | null;
   /** Loading state */
   loading: boolean;
+  /** True while data is shown (cached or from an earlier fetch) and a refresh is running */
+  revalidating: boolean;
   /** Error state */
-  error: string | null;
-  /** Refetch function */
+  error: ContributionError | null;
+  /** Remaining API quota reported by the source after the last request */
+  rateLimit: RateLimitInfo | null;
+  /** Refetch function (bypasses fresh cache entries) */
   refetch: () => Promise<void>;
   /** Clear error function */
   clearError: () => void;
@@ -122,6 +373,62 @@ export interface GitHubAPIResponse {
   }>;
 }
 
+/** Plural forms selected with Intl.PluralRules; `other` is the fallback */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * User-facing strings. Placeholders in braces ({count}, {date}, ...) are filled in at render time.
+ */
+export interface CalendarMessages {
+  /** Shown while the first request runs */
+  loading: string;
+  /** Retry button in the default error UI */
+  retry: string;
+  /** Rate limit hint in the default error UI ({time}) */
+  rateLimitResets: string;
+  /** Default error UI text per error kind; falls back to the error's own message */
+  errors: Partial<Record<ContributionError['kind'], string>>;
+  /** Total in the stats area ({count}) */
+  totalContributions: PluralMessage;
+  /** Profile line in the stats area ({username}) */
+  profile: string;
+  /** Contribution counts per type ({count}), used in tooltips */
+  contributionCounts: Record<ContributionType | 'all', PluralMessage>;
+  /** Tooltip for a day with contributions ({contributions}, {date}, {breakdown}) */
+  dayTooltip: string;
+  /** Tooltip for a day without contributions, per type ({date}) */
+  emptyDayTooltip: Record<ContributionType | 'all', string>;
+  /** Type selector button labels */
+  typeFilter: Record<ContributionType | 'all', string>;
+  /** Accessible name of the type selector */
+  typeFilterLabel: string;
+  /** Tooltip for a cell while animating ({row}, {col}, {contributions}) */
+  animationCellTooltip: string;
+  /** Tooltip for an empty cell while animating ({row}, {col}) */
+  animationCellEmptyTooltip: string;
+  /** Animation pattern names */
+  patterns: Record<AnimationPattern, string>;
+  /** Letter tooltip when clicking starts a pattern ({pattern}) */
+  startPattern: string;
+  /** Letter tooltip when clicking pauses the running pattern ({pattern}) */
+  pausePattern: string;
+  /** Animation status label */
+  animation: string;
+  /** Animation status while running ({generation}) */
+  running: string;
+  /** Animation status while paused */
+  paused: string;
+  /** Animation control buttons */
+  randomize: string;
+  clear: string;
+  showRealData: string;
+}
+
+/** Partial messages; nested records are merged key by key */
+export type CalendarMessagesOverride = {
+  [K in keyof CalendarMessages]?: CalendarMessages[K] extends string ? string : Partial<CalendarMessages[K]>;
+};
+
 export type AnimationPattern = 
   | 'gameOfLife'
   | 'ripple'
@@ -132,7 +439,61 @@ export type AnimationPattern =
   | 'rule30'
   | 'image';
 
-export type Theme = 'light' | 'dark';
+/** Random source returning numbers in [0, 1), like Math.random */
+export type PatternRandom = () => number;
+
+/** State carried from one step to the next; each pattern reads only its own fields */
+export interface PatternState {
+  /** Ripples still growing (ripple) */
+  ripples?: Array<{ centerRow: number; centerCol: number; radius: number; maxRadius: number }>;
+  /** Generations since the pattern started (wave, spiral) */
+  time?: number;
+}
+
+export interface PatternStepResult<S = PatternState> {
+  /** Grid of the next generation */
+  grid: number[][];
+  /** State to pass to the next step */
+  state: S;
+  /** Whether any cell changed */
+  changed: boolean;
+}
+
+/**
+ * Pure, framework-agnostic implementation of an animation pattern.
+ * Grids are never mutated; the grid size is read from the grid passed in.
+ */
+export interface PatternEngine<S = PatternState> {
+  /** Pattern this engine runs */
+  pattern: AnimationPattern;
+  /** Grid the pattern starts from when switched to */
+  createGrid: (size: { rows: number; cols: number }, rng: PatternRandom) => number[][];
+  /** Advance one generation; start with an empty state object ({}) */
+  step: (grid: number[][], state: S, rng: PatternRandom) => PatternStepResult<S>;
+}
+
+/** Built-in light and dark styles */
+export type ThemeMode = 'light' | 'dark';
+
+export interface Theme {
+  /** Base style for everything the theme does not color (controls, disabled states) */
+  mode: ThemeMode;
+  /** Container background */
+  background: string;
+  /** Text and axis labels */
+  text: string;
+  /** Cells with no contributions */
+  emptyCell: string;
+  /** Colors for levels 1..N, lowest first; other level counts are blended from these */
+  levels: string[];
+  /** Buttons, active letters and the spinner */
+  accent: string;
+  /** Grid and panel borders (defaults to emptyCell) */
+  border?: string;
+}
+
+/** Names of the built-in Theme presets */
+export type ThemePreset = 'githubClassic' | 'halloween' | 'colorblind' | 'monochrome';
 
 export interface AnimationConfig {
   /** Animation speed in milliseconds */
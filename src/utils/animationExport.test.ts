@@ -0,0 +1,143 @@
+import { inflateSync } from 'zlib';
+import { createAnimationFrames, exportAnimation } from './animationExport';
+import { createContributionData } from './fetchContributionData';
+import { encodeGif } from './gifEncoder';
+import { encodeApng, encodePng, RasterImage } from './pngEncoder';
+
+const solid = (width: number, height: number, rgba: number[]): RasterImage => {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels.set(rgba, i);
+  }
+  return { width, height, pixels };
+};
+
+const red = solid(3, 2, [255, 0, 0, 255]);
+const blue = solid(3, 2, [0, 0, 255, 255]);
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+const uint16le = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const uint32be = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Type and data of every chunk after the 8-byte signature
+const pngChunks = (bytes: Uint8Array) => {
+  const chunks: Array<{ type: string; data: Uint8Array }> = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = uint32be(bytes, offset);
+    chunks.push({ type: ascii(bytes, offset + 4, 4), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const indexOf = (bytes: Uint8Array, sequence: number[], from = 0) => {
+  for (let i = from; i <= bytes.length - sequence.length; i++) {
+    if (sequence.every((byte, j) => bytes[i + j] === byte)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+describe('encodeGif', () => {
+  it('writes a GIF89a header with the frame size and a looping extension', () => {
+    const gif = encodeGif([red, blue], { frameDelay: 100 });
+
+    expect(ascii(gif, 0, 6)).toBe('GIF89a');
+    expect([uint16le(gif, 6), uint16le(gif, 8)]).toEqual([3, 2]);
+    expect(indexOf(gif, 'NETSCAPE2.0'.split('').map((char) => char.charCodeAt(0)))).toBeGreaterThan(0);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it('writes one image per frame with the delay in hundredths of a second', () => {
+    const gif = encodeGif([red, blue, red], { frameDelay: 100 });
+
+    // Graphic control extension: 0x21 0xf9, block size 4, flags, then the delay
+    const delays: number[] = [];
+    for (let at = indexOf(gif, [0x21, 0xf9, 4]); at >= 0; at = indexOf(gif, [0x21, 0xf9, 4], at + 1)) {
+      delays.push(uint16le(gif, at + 4));
+    }
+    expect(delays).toEqual([10, 10, 10]);
+  });
+
+  it('plays once without the looping extension', () => {
+    const gif = encodeGif([red, blue], { loop: false });
+
+    expect(indexOf(gif, 'NETSCAPE'.split('').map((char) => char.charCodeAt(0)))).toBe(-1);
+  });
+
+  it('rejects an empty frame list', () => {
+    expect(() => encodeGif([])).toThrow('at least one frame');
+  });
+});
+
+describe('encodeApng', () => {
+  it('writes a PNG with an acTL chunk holding the frame count and loop count', () => {
+    const apng = encodeApng([red, blue, red]);
+
+    expect(Array.from(apng.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const chunks = pngChunks(apng);
+    expect(chunks.map(({ type }) => type)).toEqual([
+      'IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND'
+    ]);
+    const acTL = chunks[1].data;
+    expect([uint32be(acTL, 0), uint32be(acTL, 4)]).toEqual([3, 0]);
+  });
+
+  it('numbers fcTL and fdAT chunks in one sequence and stores the delay in milliseconds', () => {
+    const chunks = pngChunks(encodeApng([red, blue], { frameDelay: 80, loop: false }));
+
+    expect(uint32be(chunks[1].data, 4)).toBe(1);
+    const sequence = chunks
+      .filter(({ type }) => type === 'fcTL' || type === 'fdAT')
+      .map(({ data }) => uint32be(data, 0));
+    expect(sequence).toEqual([0, 1, 2]);
+    const fcTL = chunks[2].data;
+    expect([uint32be(fcTL, 4), uint32be(fcTL, 8)]).toEqual([3, 2]);
+    expect([(fcTL[20] << 8) | fcTL[21], (fcTL[22] << 8) | fcTL[23]]).toEqual([80, 1000]);
+  });
+
+  it('stores frames a zlib decoder can read, with or without a compressor', () => {
+    const plain = pngChunks(encodePng(red)).find(({ type }) => type === 'IDAT')!.data;
+
+    // One filter byte per row, then RGBA
+    const row = inflateSync(plain).subarray(0, 1 + 3 * 4);
+    expect(Array.from(row)).toEqual([0, 255, 0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255]);
+
+    const fdAT = pngChunks(encodeApng([red, blue])).find(({ type }) => type === 'fdAT')!.data;
+    expect(Array.from(inflateSync(fdAT.subarray(4)).subarray(1, 5))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('rejects an empty frame list', () => {
+    expect(() => encodeApng([])).toThrow('at least one frame');
+  });
+});
+
+describe('exportAnimation', () => {
+  const data = createContributionData(
+    [{ date: '2024-01-01', count: 1 }, { date: '2024-01-03', count: 11 }],
+    { username: 'jane', startDate: new Date(2024, 0, 1), endDate: new Date(2024, 0, 21) }
+  );
+  const options = { pattern: 'wave' as const, generations: 4, theme: 'light' as const };
+
+  it('computes the starting grid and one grid per generation at the data size', () => {
+    const frames = createAnimationFrames(data, options);
+
+    expect(frames).toHaveLength(5);
+    frames.forEach((grid) => {
+      expect(grid).toHaveLength(data.grid.length);
+      expect(grid[0]).toHaveLength(data.grid[0].length);
+    });
+  });
+
+  it('encodes the data frame and the generations in the requested format', () => {
+    expect(ascii(exportAnimation(data, options), 0, 6)).toBe('GIF89a');
+
+    const apng = exportAnimation(data, { ...options, format: 'apng' });
+    expect(uint32be(pngChunks(apng)[1].data, 0)).toBe(6);
+    expect(uint32be(pngChunks(exportAnimation(data, { ...options, format: 'apng', includeData: false }))[1].data, 0)).toBe(5);
+  });
+});
@@ -0,0 +1,94 @@
+import type { AnimationPattern, ContributionData } from '../types';
+import { generatePatternFrames, PATTERN_ENGINES } from './patternEngine';
+import { buildLevelGrid, getDataLevelGrid } from './contributionLevels';
+import { rasterizeLevelGrid, RasterizeContributionOptions } from './contributionRaster';
+import { encodeGif } from './gifEncoder';
+import { encodeApng, EncodePngOptions } from './pngEncoder';
+import { resolveTheme } from './themes';
+
+export type AnimationExportFormat = 'gif' | 'apng';
+
+export interface CreateAnimationFramesOptions {
+  /** Pattern to run */
+  pattern: AnimationPattern;
+  /** Generations to run after the starting grid (default 60; Game of Life may settle sooner) */
+  generations?: number;
+  /**
+   * Where the pattern starts: 'pattern' uses the pattern's own start (like switching patterns),
+   * 'data' makes every day with contributions a live cell, or pass a grid such as useAnimationPatterns().grid
+   */
+  startFrom?: 'pattern' | 'data' | number[][];
+  /** Random source (defaults to Math.random; pass createSeededRandom for repeatable runs) */
+  random?: () => number;
+}
+
+export interface ExportAnimationOptions extends CreateAnimationFramesOptions, RasterizeContributionOptions {
+  /** File format (default 'gif') */
+  format?: AnimationExportFormat;
+  /** Milliseconds each frame is shown (default 150, the component's animation speed) */
+  frameDelay?: number;
+  /** Repeat forever (default true); otherwise play once */
+  loop?: boolean;
+  /** Show the real data as the first frame (default true) */
+  includeData?: boolean;
+  /** zlib compressor for APNG frames, e.g. zlib.deflateSync in Node (stored uncompressed without one) */
+  deflate?: EncodePngOptions['deflate'];
+}
+
+/**
+ * Starting grid and the generations that follow it, computed offscreen
+ */
+export const createAnimationFrames = (
+  data: ContributionData,
+  { pattern, generations = 60, startFrom = 'pattern', random = Math.random }: CreateAnimationFramesOptions
+): number[][][] => {
+  const size = { rows: data.grid.length, cols: data.grid[0]?.length || 0 };
+  let startGrid: number[][];
+  if (startFrom === 'data') {
+    startGrid = data.grid.map((row) => row.map((count) => (count > 0 ? 1 : 0)));
+  } else if (startFrom === 'pattern') {
+    startGrid = PATTERN_ENGINES[pattern].createGrid(size, random);
+  } else {
+    startGrid = startFrom.map((row) => row.slice());
+  }
+  return [startGrid, ...generatePatternFrames(startGrid, { pattern, frames: generations, random })];
+};
+
+/**
+ * Run an animation pattern offscreen and encode it as an animated GIF or APNG.
+ * Returns the file bytes, e.g. for new Blob([bytes], { type: 'image/gif' }) or fs.writeFileSync.
+ */
+export const exportAnimation = (
+  data: ContributionData,
+  {
+    format = 'gif',
+    frameDelay = 150,
+    loop = true,
+    includeData = true,
+    deflate,
+    pattern,
+    generations,
+    startFrom,
+    random,
+    theme = 'dark',
+    levels,
+    contributionType = 'all',
+    ...rasterOptions
+  }: ExportAnimationOptions
+): Uint8Array => {
+  const { scale, levelGrid } = getDataLevelGrid(data, levels, contributionType);
+  const rows = levelGrid.length;
+  const cols = rows > 0 ? levelGrid[0].length : 0;
+  const frameOptions = { ...rasterOptions, theme: resolveTheme(theme), levels: scale.levels };
+
+  // Animation cells have no dates, like the component's animation grid
+  const frames = createAnimationFrames(data, { pattern, generations, startFrom, random })
+    .map((grid) => rasterizeLevelGrid(buildLevelGrid(grid, { rows, cols, scale }), frameOptions));
+  if (includeData) {
+    frames.unshift(rasterizeLevelGrid(levelGrid, frameOptions));
+  }
+
+  return format === 'apng'
+    ? encodeApng(frames, { frameDelay, loop, deflate })
+    : encodeGif(frames, { frameDelay, loop });
+};
@@ -0,0 +1,75 @@
+import type { WeekStartsOn } from '../types';
+import { calculateDateFromGridPosition, isOutsideRange } from './contributionGrid';
+import { addDays, dateKeyToUTC, parseDateKey } from './dates';
+
+export interface MonthLabel {
+  /** Grid column the label sits above */
+  col: number;
+  /** Localized short month name */
+  label: string;
+}
+
+export interface MonthLabelOptions {
+  /** First calendar date (YYYY-MM-DD) */
+  startDate: string;
+  /** Last calendar date (YYYY-MM-DD) */
+  endDate: string;
+  /** Number of grid columns */
+  cols: number;
+  /** First day of each column (0 = Sunday) */
+  weekStartsOn?: WeekStartsOn;
+  /** BCP 47 locale (defaults to the viewer's) */
+  locale?: string;
+}
+
+// A known Sunday; weekday names are formatted from the days after it
+const REFERENCE_SUNDAY = '2023-01-01';
+
+// Columns a short month name needs before the next label can start
+const MIN_LABEL_GAP = 3;
+
+/**
+ * Month labels aligned to the first column of each month, like GitHub's calendar.
+ * The first column is labeled too unless the next month starts right after it.
+ */
+export const getMonthLabels = ({ startDate, endDate, cols, weekStartsOn = 0, locale }: MonthLabelOptions): MonthLabel[] => {
+  const formatter = new Intl.DateTimeFormat(locale, { month: 'short', timeZone: 'UTC' });
+  const labels: MonthLabel[] = [];
+
+  for (let col = 0; col < cols; col++) {
+    // The column holding a month's 1st starts that month; column 0 starts with its first in-range day
+    let labelDate: string | null = null;
+    for (let row = 0; row < 7; row++) {
+      const date = calculateDateFromGridPosition(startDate, row, col, weekStartsOn);
+      if (isOutsideRange(date, startDate, endDate)) {
+        continue;
+      }
+      if (parseDateKey(date).day === 1 || (col === 0 && !labelDate)) {
+        labelDate = date;
+        if (col > 0) {
+          break;
+        }
+      }
+    }
+    if (labelDate) {
+      labels.push({ col, label: formatter.format(dateKeyToUTC(labelDate)) });
+    }
+  }
+
+  // Drop the leading label when the next one would overlap it
+  if (labels.length > 1 && labels[0].col === 0 && labels[1].col < MIN_LABEL_GAP) {
+    labels.shift();
+  }
+
+  return labels;
+};
+
+/**
+ * Localized short weekday names in row order, starting at weekStartsOn
+ */
+export const getWeekdayLabels = (weekStartsOn: WeekStartsOn = 0, locale?: string): string[] => {
+  const formatter = new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' });
+  return Array.from({ length: 7 }, (_, row) =>
+    formatter.format(dateKeyToUTC(addDays(REFERENCE_SUNDAY, (weekStartsOn + row) % 7)))
+  );
+};
@@ -0,0 +1,61 @@
+export interface RGBAColor {
+  /** Red, 0-255 */
+  r: number;
+  /** Green, 0-255 */
+  g: number;
+  /** Blue, 0-255 */
+  b: number;
+  /** Alpha, 0-1 */
+  a: number;
+}
+
+/**
+ * Parse a hex (#rgb, #rrggbb, #rrggbbaa) or rgb()/rgba() color; other syntaxes return null
+ */
+export const parseColor = (color: string): RGBAColor | null => {
+  const value = color.trim();
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(value);
+  if (hex) {
+    const digits = hex[1].length === 3
+      ? hex[1].split('').map((digit) => digit + digit).join('')
+      : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  const rgb = /^rgba?\(([^)]+)\)$/i.exec(value);
+  if (rgb) {
+    const [r, g, b, a = '1'] = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    const alpha = a.charAt(a.length - 1) === '%' ? parseFloat(a) / 100 : parseFloat(a);
+    return { r: parseFloat(r), g: parseFloat(g), b: parseFloat(b), a: alpha };
+  }
+
+  return null;
+};
+
+const toHex = (channel: number) => {
+  const hex = Math.max(0, Math.min(255, Math.round(channel))).toString(16);
+  return hex.length === 1 ? `0${hex}` : hex;
+};
+
+/**
+ * #rrggbb for opaque colors, rgba() otherwise
+ */
+export const formatColor = ({ r, g, b, a }: RGBAColor): string =>
+  a >= 1
+    ? `#${toHex(r)}${toHex(g)}${toHex(b)}`
+    : `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Math.round(a * 1000) / 1000})`;
+
+/**
+ * Blend two colors in sRGB, like CSS color-mix(); weight (0-1) is the share of `to`
+ */
+export const mixColors = (from: RGBAColor, to: RGBAColor, weight: number): RGBAColor => ({
+  r: from.r + (to.r - from.r) * weight,
+  g: from.g + (to.g - from.g) * weight,
+  b: from.b + (to.b - from.b) * weight,
+  a: from.a + (to.a - from.a) * weight
+});
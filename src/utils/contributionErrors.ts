@@ -0,0 +1,36 @@
+import type { ContributionError } from '../types';
+
+/** Error thrown by sources, carrying its structured ContributionError */
+export type ContributionErrorCarrier = Error & { contributionError: ContributionError };
+
+/**
+ * Create a throwable Error for a ContributionError; custom sources can use it too
+ */
+export const createContributionError = (detail: ContributionError): ContributionErrorCarrier =>
+  Object.assign(new Error(detail.message), { contributionError: detail });
+
+/**
+ * Normalize anything a source threw into a ContributionError
+ */
+export const toContributionError = (err: unknown): ContributionError => {
+  if (err && typeof err === 'object' && 'contributionError' in err) {
+    return (err as ContributionErrorCarrier).contributionError;
+  }
+  // fetch rejects with a TypeError when the network is unreachable
+  if (err instanceof TypeError) {
+    return { kind: 'network', message: err.message || 'Network request failed' };
+  }
+  return { kind: 'unknown', message: err instanceof Error ? err.message : 'Failed to fetch contributions' };
+};
+
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export const createAbortError = (): Error =>
+  Object.assign(new Error('The request was aborted'), { name: 'AbortError' });
+
+/**
+ * Whether a thrown value comes from an aborted request (fetch's DOMException or createAbortError)
+ */
+export const isAbortError = (err: unknown): boolean =>
+  !!err && typeof err === 'object' && (err as { name?: string }).name === 'AbortError';
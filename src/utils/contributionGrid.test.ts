@@ -0,0 +1,96 @@
+import type { WeekStartsOn } from '../types';
+import { buildContributionGrid, calculateDateFromGridPosition, getGridDimensions } from './contributionGrid';
+import { createContributionData } from './fetchContributionData';
+
+// January 1st, 2024 is a Monday
+const days = [
+  { date: '2024-01-01', count: 1 },
+  { date: '2024-01-06', count: 6 },
+  { date: '2024-01-07', count: 7 }
+];
+
+// Row and column of each non-empty cell
+const cells = (grid: number[][]) => {
+  const found: Record<number, [number, number]> = {};
+  grid.forEach((row, r) => row.forEach((count, c) => {
+    if (count > 0) {
+      found[count] = [r, c];
+    }
+  }));
+  return found;
+};
+
+describe('weekStartsOn', () => {
+  const layout = (weekStartsOn: WeekStartsOn) =>
+    buildContributionGrid(days, { startDate: '2024-01-01', endDate: '2024-01-14', gridRows: 7, gridCols: 3, weekStartsOn });
+
+  it('puts Sunday in the first row by default', () => {
+    expect(cells(layout(0))).toEqual({ 1: [1, 0], 6: [6, 0], 7: [0, 1] });
+  });
+
+  it('puts Monday in the first row for ISO weeks', () => {
+    expect(cells(layout(1))).toEqual({ 1: [0, 0], 6: [5, 0], 7: [6, 0] });
+  });
+
+  it('starts columns on any weekday', () => {
+    // Saturday-first: Monday is the third day of the first week
+    expect(cells(layout(6))).toEqual({ 1: [2, 0], 6: [0, 1], 7: [1, 1] });
+  });
+
+  ([0, 1, 2, 3, 4, 5, 6] as WeekStartsOn[]).forEach((weekStartsOn) => {
+    it(`reads back the date of every cell when weeks start on day ${weekStartsOn}`, () => {
+      const found = cells(layout(weekStartsOn));
+
+      expect(Object.keys(found)).toHaveLength(days.length);
+      days.forEach(({ date, count }) => {
+        const [row, col] = found[count];
+        expect(calculateDateFromGridPosition('2024-01-01', row, col, weekStartsOn)).toBe(date);
+      });
+    });
+  });
+});
+
+describe('getGridDimensions', () => {
+  it('spans one column per week touched by the range', () => {
+    expect(getGridDimensions('2024-01-01', '2024-12-31')).toEqual({ rows: 7, cols: 53 });
+    // 2023 starts on a Sunday and ends on a Sunday
+    expect(getGridDimensions('2023-01-01', '2023-12-31')).toEqual({ rows: 7, cols: 53 });
+    expect(getGridDimensions('2023-01-01', '2023-12-30')).toEqual({ rows: 7, cols: 52 });
+  });
+
+  it('counts weeks from weekStartsOn', () => {
+    // Monday to Sunday: one Sunday-first column too many
+    expect(getGridDimensions('2024-01-01', '2024-01-07')).toEqual({ rows: 7, cols: 2 });
+    expect(getGridDimensions('2024-01-01', '2024-01-07', 1)).toEqual({ rows: 7, cols: 1 });
+  });
+
+  it('sizes short and multi-year ranges to fit', () => {
+    expect(getGridDimensions('2024-03-15', '2024-03-15')).toEqual({ rows: 7, cols: 1 });
+    expect(getGridDimensions('2022-01-01', '2024-12-31')).toEqual({ rows: 7, cols: 158 });
+  });
+
+  it('keeps one cell for a range that ends before it starts', () => {
+    expect(getGridDimensions('2024-03-15', '2024-03-01')).toEqual({ rows: 7, cols: 1 });
+  });
+});
+
+describe('createContributionData (dimensions)', () => {
+  const range = { username: 'jane', startDate: new Date(2024, 0, 1), endDate: new Date(2024, 1, 29) };
+
+  it('derives the grid from the range and leaves cells outside it empty', () => {
+    const data = createContributionData([{ date: '2023-12-31', count: 4 }, { date: '2024-02-29', count: 9 }], range);
+
+    expect(data.grid).toHaveLength(7);
+    expect(data.grid[0]).toHaveLength(9);
+    // Sunday, December 31st pads the first column; Thursday, February 29th is the last cell
+    expect(data.grid[0][0]).toBe(0);
+    expect(data.grid[4][8]).toBe(9);
+  });
+
+  it('lets gridRows and gridCols override the derived size', () => {
+    const data = createContributionData([], { ...range, gridRows: 5, gridCols: 20 });
+
+    expect(data.grid).toHaveLength(5);
+    expect(data.grid[0]).toHaveLength(20);
+  });
+});
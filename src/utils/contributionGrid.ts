@@ -0,0 +1,94 @@
+import type { ContributionDay, WeekStartsOn } from '../types';
+import { addDays, daysBetween, getDayOfWeek } from './dates';
+
+export interface BuildContributionGridOptions {
+  /** First calendar date (YYYY-MM-DD) */
+  startDate: string;
+  /** Last calendar date (YYYY-MM-DD); later cells stay empty */
+  endDate?: string;
+  /** Number of grid rows */
+  gridRows: number;
+  /** Number of grid columns */
+  gridCols: number;
+  /** First day of each column (0 = Sunday) */
+  weekStartsOn?: WeekStartsOn;
+}
+
+export interface GridDimensions {
+  /** Number of grid rows (days per week) */
+  rows: number;
+  /** Number of grid columns (weeks) */
+  cols: number;
+}
+
+/** Corner radius of a cell in pixels, matching .cc-square */
+export const CELL_RADIUS = 2.5;
+
+// Days from the start of the week (per weekStartsOn) to startDate
+const daysIntoWeek = (startDate: string, weekStartsOn: WeekStartsOn) =>
+  (getDayOfWeek(startDate) - weekStartsOn + 7) % 7;
+
+/**
+ * Rows and columns needed to show every date from startDate to endDate
+ */
+export const getGridDimensions = (startDate: string, endDate: string, weekStartsOn: WeekStartsOn = 0): GridDimensions => {
+  const days = Math.max(daysBetween(startDate, endDate) + 1, 1);
+  return { rows: 7, cols: Math.ceil((daysIntoWeek(startDate, weekStartsOn) + days) / 7) };
+};
+
+/**
+ * Whether a grid date is padding before startDate or after endDate
+ */
+export const isOutsideRange = (date: string, startDate: string, endDate: string): boolean =>
+  date < startDate || date > endDate;
+
+/**
+ * Calculate the calendar date (YYYY-MM-DD) shown at a grid position.
+ * Columns are weeks starting on the weekStartsOn day on or before startDate.
+ */
+export const calculateDateFromGridPosition = (
+  startDate: string,
+  row: number,
+  col: number,
+  weekStartsOn: WeekStartsOn = 0
+): string =>
+  addDays(startDate, (col * 7) + row - daysIntoWeek(startDate, weekStartsOn));
+
+/**
+ * Lay a list of per-day counts out on a rows x cols grid
+ */
+export const buildContributionGrid = (
+  days: ContributionDay[],
+  { startDate, endDate, gridRows, gridCols, weekStartsOn = 0 }: BuildContributionGridOptions
+): number[][] => {
+  const grid: number[][] = [];
+
+  // Initialize grid
+  for (let row = 0; row < gridRows; row++) {
+    grid[row] = new Array(gridCols).fill(0);
+  }
+
+  // Create a map of dates to contributions
+  const dateContributionMap = new Map<string, number>();
+  days.forEach((day) => {
+    dateContributionMap.set(day.date, day.count);
+  });
+
+  // Fill grid based on custom date range
+  for (let col = 0; col < gridCols; col++) {
+    for (let row = 0; row < gridRows; row++) {
+      const date = calculateDateFromGridPosition(startDate, row, col, weekStartsOn);
+      if (!endDate || !isOutsideRange(date, startDate, endDate)) {
+        grid[row][col] = dateContributionMap.get(date) || 0;
+      }
+    }
+  }
+
+  return grid;
+};
+
+/**
+ * Sum the counts of a day list
+ */
+export const sumContributions = (days: ContributionDay[]): number =>
+  days.reduce((total, day) => total + day.count, 0);
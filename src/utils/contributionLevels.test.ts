@@ -0,0 +1,89 @@
+import { buildLevelGrid, createLevelScale, getLevelCount, OUTSIDE_CELL } from './contributionLevels';
+
+const levelsOf = (scale: ReturnType<typeof createLevelScale>, counts: number[], date: string | null = null) =>
+  counts.map((count) => scale.getLevel(count, date));
+
+describe('createLevelScale', () => {
+  it('defaults to the original 1, 3, 6, 11 cut-offs', () => {
+    const scale = createLevelScale(undefined, { counts: [] });
+
+    expect(scale.levels).toBe(4);
+    expect(levelsOf(scale, [0, 1, 2, 3, 5, 6, 10, 11, 50])).toEqual([0, 1, 1, 2, 2, 3, 3, 4, 4]);
+  });
+
+  it('sorts custom thresholds and uses one level per threshold', () => {
+    const scale = createLevelScale({ kind: 'thresholds', thresholds: [10, 1] }, { counts: [] });
+
+    expect(scale.levels).toBe(2);
+    expect(levelsOf(scale, [0, 1, 9, 10])).toEqual([0, 1, 1, 2]);
+  });
+
+  it('splits the displayed non-zero counts into quantiles', () => {
+    const scale = createLevelScale({ kind: 'quantiles' }, { counts: [0, 0, 1, 2, 3, 4, 5, 6, 7, 8] });
+
+    expect(scale.levels).toBe(4);
+    expect(levelsOf(scale, [0, 1, 2, 3, 4, 5, 6, 7, 8])).toEqual([0, 1, 1, 2, 2, 3, 3, 4, 4]);
+  });
+
+  it('supports any number of quantile levels', () => {
+    const scale = createLevelScale({ kind: 'quantiles', levels: 2 }, { counts: [1, 2, 3, 4] });
+
+    expect(scale.levels).toBe(2);
+    expect(levelsOf(scale, [1, 2, 3, 4])).toEqual([1, 1, 2, 2]);
+  });
+
+  it('uses native levels by date and quartiles for days without one', () => {
+    const scale = createLevelScale({ kind: 'native' }, {
+      counts: [1, 2, 3, 4],
+      days: [{ date: '2024-01-01', count: 1, level: 4 }, { date: '2024-01-02', count: 9, level: 9 }]
+    });
+
+    expect(scale.getLevel(1, '2024-01-01')).toBe(4);
+    // Out-of-range native levels are clamped
+    expect(scale.getLevel(9, '2024-01-02')).toBe(4);
+    expect(scale.getLevel(4, '2024-01-03')).toBe(4);
+    expect(scale.getLevel(1, null)).toBe(1);
+  });
+
+  it('passes the date and displayed counts to custom levels and clamps the result', () => {
+    const contexts: unknown[] = [];
+    const scale = createLevelScale({
+      kind: 'custom',
+      levels: 3,
+      getLevel: (count, context) => {
+        contexts.push(context);
+        return count === 0 ? -1 : count * 2;
+      }
+    }, { counts: [0, 5, 1] });
+
+    expect(levelsOf(scale, [0, 1, 5], '2024-01-01')).toEqual([0, 2, 3]);
+    expect(contexts[0]).toEqual({ counts: [1, 5], max: 5, date: '2024-01-01' });
+  });
+});
+
+describe('getLevelCount', () => {
+  it('reads the number of levels from every kind', () => {
+    expect(getLevelCount()).toBe(4);
+    expect(getLevelCount({ kind: 'thresholds', thresholds: [1, 2, 3, 4, 5, 6] })).toBe(6);
+    expect(getLevelCount({ kind: 'quantiles', levels: 0 })).toBe(1);
+    expect(getLevelCount({ kind: 'native' })).toBe(4);
+    expect(getLevelCount({ kind: 'custom', levels: 7.5, getLevel: () => 0 })).toBe(7);
+  });
+});
+
+describe('buildLevelGrid', () => {
+  it('marks cells outside the range and levels the rest', () => {
+    const scale = createLevelScale(undefined, { counts: [] });
+    // Monday to Wednesday in a Sunday-first column
+    const grid = [[0], [1], [3], [6], [11], [0], [0]];
+
+    const levelGrid = buildLevelGrid(grid, {
+      rows: 7,
+      cols: 1,
+      scale,
+      range: { startDate: '2024-01-01', endDate: '2024-01-03' }
+    });
+
+    expect(levelGrid.map((row) => row[0])).toEqual([OUTSIDE_CELL, 1, 2, 3, OUTSIDE_CELL, OUTSIDE_CELL, OUTSIDE_CELL]);
+  });
+});
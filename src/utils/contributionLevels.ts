@@ -0,0 +1,197 @@
+import type {
+  ContributionData,
+  ContributionDay,
+  ContributionLevelContext,
+  ContributionLevels,
+  ContributionType,
+  WeekStartsOn
+} from '../types';
+import { calculateDateFromGridPosition, isOutsideRange } from './contributionGrid';
+
+/** Cut-offs matching the original fixed levels (1-2, 3-5, 6-10, 11+) */
+export const DEFAULT_LEVEL_THRESHOLDS = [1, 3, 6, 11];
+
+/** Level marking a cell outside the date range */
+export const OUTSIDE_CELL = -1;
+
+// GitHub assigns four levels from the quartiles of a user's counts
+const NATIVE_LEVEL_COUNT = 4;
+
+export interface LevelScale {
+  /** Number of non-empty levels (levels run 0..levels) */
+  levels: number;
+  /** Level of a count; date is the cell's calendar date, or null for animation cells */
+  getLevel: (count: number, date: string | null) => number;
+}
+
+export interface BuildLevelGridOptions {
+  /** Number of grid rows */
+  rows: number;
+  /** Number of grid columns */
+  cols: number;
+  /** Count-to-level mapping */
+  scale: LevelScale;
+  /** Date range of the grid; without it cells are treated as animation cells (no dates, no padding) */
+  range?: {
+    /** First calendar date (YYYY-MM-DD) */
+    startDate: string;
+    /** Last calendar date (YYYY-MM-DD) */
+    endDate: string;
+    /** First day of each grid column (0 = Sunday) */
+    weekStartsOn?: WeekStartsOn;
+  };
+}
+
+export interface CreateLevelScaleOptions {
+  /** Counts currently displayed (zeros are ignored) */
+  counts: number[];
+  /** Days of the displayed data, read for source-assigned levels */
+  days?: ContributionDay[];
+}
+
+/**
+ * Value at fraction p (0-1) of an ascending list, linearly interpolated
+ */
+const quantile = (sorted: number[], p: number): number => {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const clampLevel = (level: number, levels: number) =>
+  Math.max(0, Math.min(levels, Math.round(level) || 0));
+
+const thresholdLevel = (count: number, thresholds: number[]) => {
+  let level = 0;
+  thresholds.forEach((threshold) => {
+    if (count >= threshold) {
+      level++;
+    }
+  });
+  return level;
+};
+
+// Level 1 holds the lowest 1/levels of non-zero counts, level 2 the next, and so on
+const createQuantileLevel = (sorted: number[], levels: number) => {
+  const boundaries = Array.from({ length: levels - 1 }, (_, i) =>
+    sorted.length > 0 ? quantile(sorted, (i + 1) / levels) : 0
+  );
+  return (count: number) =>
+    count > 0 ? 1 + boundaries.filter((boundary) => count > boundary).length : 0;
+};
+
+/**
+ * Number of non-empty levels a levels option produces
+ */
+export const getLevelCount = (levels?: ContributionLevels): number => {
+  if (!levels) {
+    return DEFAULT_LEVEL_THRESHOLDS.length;
+  }
+  switch (levels.kind) {
+    case 'thresholds':
+      return levels.thresholds.length;
+    case 'quantiles':
+      return Math.max(1, Math.floor(levels.levels ?? NATIVE_LEVEL_COUNT));
+    case 'native':
+      return NATIVE_LEVEL_COUNT;
+    case 'custom':
+      return Math.max(1, Math.floor(levels.levels));
+  }
+};
+
+/**
+ * Build the count-to-level mapping for a levels option and the counts on screen
+ */
+export const createLevelScale = (
+  levels: ContributionLevels | undefined,
+  { counts, days = [] }: CreateLevelScaleOptions
+): LevelScale => {
+  const levelCount = getLevelCount(levels);
+  const sorted = counts.filter((count) => count > 0).sort((a, b) => a - b);
+
+  if (!levels || levels.kind === 'thresholds') {
+    const thresholds = (levels ? levels.thresholds : DEFAULT_LEVEL_THRESHOLDS).slice().sort((a, b) => a - b);
+    return { levels: levelCount, getLevel: (count) => (count > 0 ? thresholdLevel(count, thresholds) : 0) };
+  }
+
+  if (levels.kind === 'quantiles') {
+    return { levels: levelCount, getLevel: createQuantileLevel(sorted, levelCount) };
+  }
+
+  if (levels.kind === 'native') {
+    const nativeLevels = new Map<string, number>();
+    days.forEach((day) => {
+      if (day.level !== undefined && day.level >= 0) {
+        nativeLevels.set(day.date, day.level);
+      }
+    });
+    // Days without a native level (team, filtered, per-type and animation cells) use quartiles
+    const fallback = createQuantileLevel(sorted, NATIVE_LEVEL_COUNT);
+    return {
+      levels: levelCount,
+      getLevel: (count, date) => {
+        const native = date !== null ? nativeLevels.get(date) : undefined;
+        return native !== undefined ? clampLevel(native, levelCount) : fallback(count);
+      }
+    };
+  }
+
+  const { getLevel } = levels;
+  const context: Omit<ContributionLevelContext, 'date'> = {
+    counts: sorted,
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+  };
+  return {
+    levels: levelCount,
+    getLevel: (count, date) => clampLevel(getLevel(count, { ...context, date }), levelCount)
+  };
+};
+
+/**
+ * Level of every cell in a grid (OUTSIDE_CELL for padding before startDate / after endDate)
+ */
+export const buildLevelGrid = (grid: number[][], { rows, cols, scale, range }: BuildLevelGridOptions): number[][] =>
+  Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) => {
+    const value = grid[row]?.[col] || 0;
+    if (!range) {
+      return scale.getLevel(value, null);
+    }
+    const date = calculateDateFromGridPosition(range.startDate, row, col, range.weekStartsOn);
+    return isOutsideRange(date, range.startDate, range.endDate) ? OUTSIDE_CELL : scale.getLevel(value, date);
+  }));
+
+export interface DataLevelGrid {
+  /** Counts of the displayed layer, indexed [row][col] */
+  grid: number[][];
+  /** Count-to-level mapping for those counts */
+  scale: LevelScale;
+  /** Level of every cell, OUTSIDE_CELL for padding */
+  levelGrid: number[][];
+}
+
+/**
+ * Levels of the grid ContributionData shows for a contribution type, as the component computes them
+ */
+export const getDataLevelGrid = (
+  data: ContributionData,
+  levels?: ContributionLevels,
+  contributionType: ContributionType | 'all' = 'all'
+): DataLevelGrid => {
+  const grid = contributionType !== 'all' && data.layers ? data.layers[contributionType] : data.grid;
+  const rows = grid.length;
+  const cols = rows > 0 ? grid[0].length : 0;
+
+  // Native levels only describe the total
+  const scale = createLevelScale(levels, {
+    counts: ([] as number[]).concat(...grid),
+    days: grid === data.grid ? data.days : undefined
+  });
+  const levelGrid = buildLevelGrid(grid, {
+    rows,
+    cols,
+    scale,
+    range: { startDate: data.startDate, endDate: data.endDate, weekStartsOn: data.weekStartsOn || 0 }
+  });
+  return { grid, scale, levelGrid };
+};
@@ -0,0 +1,144 @@
+import type { ContributionData, ContributionLevels, ContributionType, Theme, ThemeMode } from '../types';
+import { CELL_RADIUS } from './contributionGrid';
+import { getDataLevelGrid, OUTSIDE_CELL } from './contributionLevels';
+import { parseColor, RGBAColor } from './colors';
+import { getLevelColors, resolveTheme } from './themes';
+import type { RasterImage } from './pngEncoder';
+
+export interface RasterizeLevelGridOptions {
+  /** Colors to paint with */
+  theme: Theme;
+  /** Number of non-empty levels in the grid */
+  levels: number;
+  /** Size of contribution squares in CSS pixels (default 14) */
+  squareSize?: number;
+  /** Gap between squares in CSS pixels (default 3) */
+  gapSize?: number;
+  /** Device pixels per CSS pixel (default 1) */
+  scale?: number;
+}
+
+export interface RasterizeContributionOptions {
+  /** 'light', 'dark' or a Theme object (default 'dark', like the component) */
+  theme?: ThemeMode | Theme;
+  /** How counts map to color levels (defaults to thresholds 1, 3, 6, 11) */
+  levels?: ContributionLevels;
+  /** Contribution type layer to draw (needs data.layers) */
+  contributionType?: ContributionType | 'all';
+  /** Size of contribution squares in CSS pixels (default 14) */
+  squareSize?: number;
+  /** Gap between squares in CSS pixels (default 3) */
+  gapSize?: number;
+  /** Device pixels per CSS pixel (default 1) */
+  scale?: number;
+}
+
+// Same container as the SVG export, minus the labels (there are no fonts without a DOM)
+const PADDING = 10;
+const BORDER_WIDTH = 2;
+const CONTAINER_RADIUS = 8;
+
+const toRGBA = (color: string): RGBAColor => {
+  const parsed = parseColor(color);
+  if (!parsed) {
+    throw new Error(`Raster output needs hex or rgb() colors, got "${color}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Paint a rounded rectangle over the pixels whose centers it covers (source-over, no anti-aliasing)
+ */
+const fillRoundedRect = (
+  image: RasterImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+  { r, g, b, a }: RGBAColor
+) => {
+  const left = Math.max(0, Math.floor(x));
+  const top = Math.max(0, Math.floor(y));
+  const right = Math.min(image.width, Math.ceil(x + width));
+  const bottom = Math.min(image.height, Math.ceil(y + height));
+
+  for (let py = top; py < bottom; py++) {
+    for (let px = left; px < right; px++) {
+      const cx = px + 0.5;
+      const cy = py + 0.5;
+      if (cx < x || cx > x + width || cy < y || cy > y + height) {
+        continue;
+      }
+      // Outside the corner arcs when beyond the radius of the nearest inner corner
+      const dx = cx - Math.max(x + radius, Math.min(cx, x + width - radius));
+      const dy = cy - Math.max(y + radius, Math.min(cy, y + height - radius));
+      if (dx * dx + dy * dy > radius * radius) {
+        continue;
+      }
+
+      const offset = (py * image.width + px) * 4;
+      const alpha = image.pixels[offset + 3] / 255;
+      const outAlpha = a + alpha * (1 - a);
+      const blend = (source: number, target: number) =>
+        outAlpha > 0 ? Math.round((source * a + target * alpha * (1 - a)) / outAlpha) : 0;
+      image.pixels[offset] = blend(r, image.pixels[offset]);
+      image.pixels[offset + 1] = blend(g, image.pixels[offset + 1]);
+      image.pixels[offset + 2] = blend(b, image.pixels[offset + 2]);
+      image.pixels[offset + 3] = Math.round(outAlpha * 255);
+    }
+  }
+};
+
+/**
+ * Paint a level grid (e.g. from buildLevelGrid) inside the calendar container as RGBA pixels
+ */
+export const rasterizeLevelGrid = (
+  levelGrid: number[][],
+  { theme, levels, squareSize = 14, gapSize = 3, scale = 1 }: RasterizeLevelGridOptions
+): RasterImage => {
+  const rows = levelGrid.length;
+  const cols = rows > 0 ? levelGrid[0].length : 0;
+  const pitch = squareSize + gapSize;
+  const width = Math.ceil((PADDING * 2 + Math.max(cols * pitch - gapSize, 0)) * scale);
+  const height = Math.ceil((PADDING * 2 + Math.max(rows * pitch - gapSize, 0)) * scale);
+  const image: RasterImage = { width, height, pixels: new Uint8Array(width * height * 4) };
+
+  const background = toRGBA(theme.background);
+  const emptyCell = toRGBA(theme.emptyCell);
+  const levelColors = getLevelColors(theme.levels, levels).map(toRGBA);
+  const border = BORDER_WIDTH * scale;
+
+  fillRoundedRect(image, 0, 0, width, height, CONTAINER_RADIUS * scale, toRGBA(theme.border || theme.emptyCell));
+  fillRoundedRect(image, border, border, width - border * 2, height - border * 2, (CONTAINER_RADIUS - BORDER_WIDTH) * scale, background);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const level = levelGrid[row][col];
+      const x = (PADDING + col * pitch) * scale;
+      const y = (PADDING + row * pitch) * scale;
+      const size = squareSize * scale;
+
+      if (level === OUTSIDE_CELL) {
+        // One-pixel outline, like .cc-outside
+        fillRoundedRect(image, x, y, size, size, CELL_RADIUS * scale, emptyCell);
+        fillRoundedRect(image, x + scale, y + scale, size - scale * 2, size - scale * 2, Math.max(CELL_RADIUS - 1, 0) * scale, background);
+        continue;
+      }
+      fillRoundedRect(image, x, y, size, size, CELL_RADIUS * scale, level > 0 ? levelColors[level - 1] : emptyCell);
+    }
+  }
+
+  return image;
+};
+
+/**
+ * Paint ContributionData as RGBA pixels, e.g. to encode as PNG. Colors must be hex or rgb().
+ */
+export const rasterizeContributionData = (
+  data: ContributionData,
+  { theme = 'dark', levels, contributionType = 'all', ...options }: RasterizeContributionOptions = {}
+): RasterImage => {
+  const { scale: levelScale, levelGrid } = getDataLevelGrid(data, levels, contributionType);
+  return rasterizeLevelGrid(levelGrid, { ...options, theme: resolveTheme(theme), levels: levelScale.levels });
+};
@@ -0,0 +1,76 @@
+import { renderAnimatedContributionSvg, renderContributionSvg } from './contributionSvg';
+import { createContributionData } from './fetchContributionData';
+import { MODE_THEMES } from './themes';
+
+// Monday to Wednesday: one Sunday-first column with four padding cells
+const data = createContributionData(
+  [
+    { date: '2024-01-01', count: 1 },
+    { date: '2024-01-03', count: 11 }
+  ],
+  { username: 'jane', startDate: new Date(2024, 0, 1), endDate: new Date(2024, 0, 3) }
+);
+
+const plain = { showMonthLabels: false, showWeekdayLabels: false, tooltips: false };
+
+const cellFills = (svg: string) =>
+  (svg.match(/<rect x="\d+" y="\d+" width="14" height="14" rx="2.5" fill="[^"]+"/g) || [])
+    .map((rect) => /fill="([^"]+)"/.exec(rect)![1]);
+
+describe('renderContributionSvg', () => {
+  it('sizes the document to the grid', () => {
+    const svg = renderContributionSvg(data, plain);
+
+    // 10px padding around one 14px column of seven rows with 3px gaps
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="34" height="136"/);
+    expect(svg).toContain('<title>12 contributions in the last year</title>');
+  });
+
+  it('fills days with level colors and outlines days outside the range', () => {
+    const { levels, emptyCell } = MODE_THEMES.light;
+
+    const svg = renderContributionSvg(data, { ...plain, theme: 'light' });
+
+    expect(cellFills(svg)).toEqual([levels[0], emptyCell, levels[3]]);
+    expect(svg.match(/fill="none"/g)).toHaveLength(4);
+  });
+
+  it('adds a tooltip to every day in the range', () => {
+    const svg = renderContributionSvg(data, { showMonthLabels: false, showWeekdayLabels: false });
+
+    expect(svg).toContain('<title>1 contribution on January 1</title>');
+    expect(svg).toContain('<title>No contributions on January 2</title>');
+    expect(svg).toContain('<title>11 contributions on January 3</title>');
+  });
+
+  it('escapes theme colors and messages', () => {
+    const svg = renderContributionSvg(data, {
+      ...plain,
+      theme: { ...MODE_THEMES.light, background: '"><script>' },
+      messages: { totalContributions: { one: '{count} & more', other: '{count} & more' } }
+    });
+
+    expect(svg).not.toContain('<script>');
+    expect(svg).toContain('<title>12 &#38; more</title>');
+  });
+
+  it('draws localized month and weekday labels', () => {
+    const svg = renderContributionSvg(data, { tooltips: false, locale: 'de-DE' });
+
+    expect(svg).toContain('>Jan</text>');
+    expect(svg).toContain('>Mo</text>');
+  });
+});
+
+describe('renderAnimatedContributionSvg', () => {
+  it('animates only the cells whose color changes', () => {
+    const frames = [[[0], [1], [1], [0], [0], [0], [0]]];
+
+    const svg = renderAnimatedContributionSvg(data, frames, { ...plain, frameDuration: 100, loop: false });
+
+    // January 2nd lights up and January 3rd goes dark; January 1st keeps level 1
+    expect(svg.match(/<rect class="cc-a /g)).toHaveLength(2);
+    expect(svg).toContain('@keyframes');
+    expect(svg).toContain('prefers-reduced-motion');
+  });
+});
@@ -0,0 +1,233 @@
+import type {
+  CalendarMessagesOverride,
+  ContributionData,
+  ContributionLevels,
+  ContributionType,
+  Theme,
+  ThemeMode
+} from '../types';
+import { CELL_RADIUS, calculateDateFromGridPosition } from './contributionGrid';
+import { buildLevelGrid, getDataLevelGrid, OUTSIDE_CELL } from './contributionLevels';
+import { getMonthLabels, getWeekdayLabels } from './calendarLabels';
+import { dateKeyToUTC } from './dates';
+import { formatDayTooltip, formatPlural, mergeMessages } from './messages';
+import { getLevelColors, resolveTheme } from './themes';
+
+export interface RenderContributionSvgOptions {
+  /** 'light', 'dark' or a Theme object (default 'dark', like the component) */
+  theme?: ThemeMode | Theme;
+  /** How counts map to color levels (defaults to thresholds 1, 3, 6, 11) */
+  levels?: ContributionLevels;
+  /** Contribution type layer to draw (needs data.layers) */
+  contributionType?: ContributionType | 'all';
+  /** Size of contribution squares in pixels (default 14) */
+  squareSize?: number;
+  /** Gap between squares in pixels (default 3) */
+  gapSize?: number;
+  /** Draw month names above the grid (default true) */
+  showMonthLabels?: boolean;
+  /** Draw weekday names beside the grid (default true) */
+  showWeekdayLabels?: boolean;
+  /** Add a <title> tooltip to every day (default true) */
+  tooltips?: boolean;
+  /** BCP 47 locale for labels, numbers and plurals */
+  locale?: string;
+  /** Override any user-facing string (see CalendarMessages) */
+  messages?: CalendarMessagesOverride;
+}
+
+export interface RenderAnimatedContributionSvgOptions extends RenderContributionSvgOptions {
+  /** Milliseconds each frame is shown (default 150, the component's animation speed) */
+  frameDuration?: number;
+  /** Repeat forever (default true); otherwise play once and settle on the real data */
+  loop?: boolean;
+}
+
+// Layout in pixels, mirroring the stylesheet (.cc-grid-container, .cc-month-label, .cc-weekday-label)
+const PADDING = 10;
+const BORDER_WIDTH = 2;
+const CONTAINER_RADIUS = 8;
+const LABEL_FONT_SIZE = 10;
+const MONTH_LABEL_HEIGHT = 12;
+const WEEKDAY_LABEL_PADDING = 4;
+// No text measurement without a DOM; an average glyph width is enough to reserve label space
+const LABEL_CHAR_WIDTH = 6.5;
+const FONT_FAMILY = "'Geist', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+interface SvgAnimation {
+  /** Animation grids shown after the real data, one per frame */
+  frames: number[][][];
+  /** Milliseconds per frame */
+  frameDuration: number;
+  /** Repeat forever */
+  loop: boolean;
+}
+
+const ANIMATED_CELL_CLASS = 'cc-a';
+
+const formatPercent = (value: number) => `${Math.round(value * 10000) / 100}%`;
+
+// One @keyframes rule per distinct fill sequence; cells that never change get none
+const createKeyframes = ({ frames, frameDuration, loop }: SvgAnimation) => {
+  const frameCount = frames.length + 1;
+  const names = new Map<string, string>();
+  const rules: string[] = [];
+
+  const getAnimationClass = (fills: string[]) => {
+    if (fills.every((fill) => fill === fills[0])) {
+      return null;
+    }
+    const key = fills.join(' ');
+    let name = names.get(key);
+    if (!name) {
+      name = `cc-k${names.size}`;
+      names.set(key, name);
+      const steps = fills
+        .map((fill, frame) => (frame === 0 || fill !== fills[frame - 1] ? `${formatPercent(frame / frameCount)}{fill:${escapeXml(fill)}}` : ''))
+        .join('');
+      rules.push(`@keyframes ${name}{${steps}}.${name}{animation-name:${name}}`);
+    }
+    return name;
+  };
+
+  const getStyle = () => rules.length === 0 ? '' : [
+    '<style>',
+    `.${ANIMATED_CELL_CLASS}{animation-duration:${frameCount * frameDuration}ms;animation-timing-function:step-end;animation-iteration-count:${loop ? 'infinite' : 1}}`,
+    ...rules,
+    `@media (prefers-reduced-motion:reduce){.${ANIMATED_CELL_CLASS}{animation:none}}`,
+    '</style>'
+  ].join('\n');
+
+  return { getAnimationClass, getStyle };
+};
+
+const renderSvgDocument = (
+  data: ContributionData,
+  {
+    theme = 'dark',
+    levels,
+    contributionType = 'all',
+    squareSize = 14,
+    gapSize = 3,
+    showMonthLabels = true,
+    showWeekdayLabels = true,
+    tooltips = true,
+    locale,
+    messages: messageOverrides
+  }: RenderContributionSvgOptions,
+  animation: SvgAnimation | null
+): string => {
+  const colors = resolveTheme(theme);
+  const messages = mergeMessages(messageOverrides);
+  const { grid, scale, levelGrid } = getDataLevelGrid(data, levels, contributionType);
+  const type = data.layers ? contributionType : 'all';
+  const rows = grid.length;
+  const cols = rows > 0 ? grid[0].length : 0;
+  const weekStartsOn = data.weekStartsOn || 0;
+
+  const levelColors = getLevelColors(colors.levels, scale.levels);
+  const getFill = (level: number) => (level > 0 ? levelColors[level - 1] : colors.emptyCell);
+  // Animation cells have no dates, like the component's animation grid
+  const frameLevels = animation
+    ? animation.frames.map((frame) => buildLevelGrid(frame, { rows, cols, scale }))
+    : [];
+  const keyframes = animation ? createKeyframes(animation) : null;
+
+  const weekdayLabels = showWeekdayLabels ? getWeekdayLabels(weekStartsOn, locale) : [];
+  const monthLabels = showMonthLabels
+    ? getMonthLabels({ startDate: data.startDate, endDate: data.endDate, cols, weekStartsOn, locale })
+    : [];
+  const labelWidth = weekdayLabels.reduce((width, label) => Math.max(width, label.length), 0) * LABEL_CHAR_WIDTH;
+
+  const pitch = squareSize + gapSize;
+  const gridX = PADDING + (showWeekdayLabels ? Math.ceil(labelWidth) + WEEKDAY_LABEL_PADDING + gapSize : 0);
+  const gridY = PADDING + (showMonthLabels ? MONTH_LABEL_HEIGHT + gapSize : 0);
+  const width = gridX + Math.max(cols * pitch - gapSize, 0) + PADDING;
+  const height = gridY + Math.max(rows * pitch - gapSize, 0) + PADDING;
+
+  const dayFormatter = new Intl.DateTimeFormat(locale, { month: 'long', day: 'numeric', timeZone: 'UTC' });
+  const daysByDate = new Map(data.days.map((day) => [day.date, day] as [string, typeof day]));
+  const title = formatPlural(messages.totalContributions, data.totalContributions, locale);
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeXml(title)}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<rect x="${BORDER_WIDTH / 2}" y="${BORDER_WIDTH / 2}" width="${width - BORDER_WIDTH}" height="${height - BORDER_WIDTH}" rx="${CONTAINER_RADIUS}" fill="${escapeXml(colors.background)}" stroke="${escapeXml(colors.border || colors.emptyCell)}" stroke-width="${BORDER_WIDTH}"/>`,
+    `<g font-family="${escapeXml(FONT_FAMILY)}" font-size="${LABEL_FONT_SIZE}" fill="${escapeXml(colors.text)}" fill-opacity="0.7">`
+  ];
+
+  monthLabels.forEach(({ col, label }) => {
+    parts.push(`<text x="${gridX + col * pitch}" y="${PADDING + MONTH_LABEL_HEIGHT / 2}" dominant-baseline="middle">${escapeXml(label)}</text>`);
+  });
+  // Every other row, like the component
+  for (let row = 1; row < rows && weekdayLabels.length > 0; row += 2) {
+    parts.push(`<text x="${PADDING}" y="${gridY + row * pitch + squareSize / 2}" dominant-baseline="middle">${escapeXml(weekdayLabels[row % 7])}</text>`);
+  }
+  parts.push('</g>');
+
+  for (let col = 0; col < cols; col++) {
+    for (let row = 0; row < rows; row++) {
+      const level = levelGrid[row][col];
+      const x = gridX + col * pitch;
+      const y = gridY + row * pitch;
+
+      if (level === OUTSIDE_CELL) {
+        // Same inset outline as .cc-outside
+        parts.push(`<rect x="${x + 0.5}" y="${y + 0.5}" width="${squareSize - 1}" height="${squareSize - 1}" rx="${CELL_RADIUS}" fill="none" stroke="${escapeXml(colors.emptyCell)}"/>`);
+        continue;
+      }
+
+      const fill = getFill(level);
+      const animationClass = keyframes
+        ? keyframes.getAnimationClass([fill, ...frameLevels.map((frame) => getFill(frame[row][col]))])
+        : null;
+      const classAttribute = animationClass ? ` class="${ANIMATED_CELL_CLASS} ${animationClass}"` : '';
+      const rect = `<rect${classAttribute} x="${x}" y="${y}" width="${squareSize}" height="${squareSize}" rx="${CELL_RADIUS}" fill="${escapeXml(fill)}"`;
+      if (!tooltips) {
+        parts.push(`${rect}/>`);
+        continue;
+      }
+
+      const date = calculateDateFromGridPosition(data.startDate, row, col, weekStartsOn);
+      const tooltip = formatDayTooltip(messages, {
+        count: grid[row][col] || 0,
+        date: dayFormatter.format(dateKeyToUTC(date)),
+        type,
+        users: data.userTotals ? daysByDate.get(date)?.users : undefined,
+        locale
+      });
+      parts.push(`${rect}><title>${escapeXml(tooltip)}</title></rect>`);
+    }
+  }
+
+  if (keyframes) {
+    // After the title so the first child still names the image
+    parts.splice(2, 0, keyframes.getStyle());
+  }
+
+  parts.push('</svg>');
+  return parts.filter(Boolean).join('\n');
+};
+
+/**
+ * Render ContributionData as a standalone SVG document, e.g. for README badges or print.
+ * Pure string output: works in Node without a DOM.
+ */
+export const renderContributionSvg = (
+  data: ContributionData,
+  options: RenderContributionSvgOptions = {}
+): string => renderSvgDocument(data, options, null);
+
+/**
+ * Like renderContributionSvg, but the cells play the given animation frames after the real data
+ * using CSS keyframes, so the file animates wherever SVG images do (including GitHub READMEs).
+ * Frames are animation grids such as generatePatternFrames returns.
+ */
+export const renderAnimatedContributionSvg = (
+  data: ContributionData,
+  frames: number[][][],
+  { frameDuration = 150, loop = true, ...options }: RenderAnimatedContributionSvgOptions = {}
+): string => renderSvgDocument(data, options, { frames, frameDuration, loop });
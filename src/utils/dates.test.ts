@@ -0,0 +1,60 @@
+import { createCalendarDate, getDefaultDateRange, toDateKey } from './dates';
+
+const ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'Pacific/Pago_Pago',
+  'America/St_Johns',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Tokyo',
+  'Pacific/Kiritimati'
+];
+
+const HOST_ZONES = ['UTC', 'Asia/Tokyo', 'America/Los_Angeles'];
+
+describe('createCalendarDate', () => {
+  const hostZone = process.env.TZ;
+
+  afterEach(() => {
+    process.env.TZ = hostZone;
+  });
+
+  ZONES.forEach((timeZone) => {
+    it(`reads back the same calendar date in ${timeZone}`, () => {
+      ['2024-01-01', '2024-02-29', '2024-03-10', '2024-10-27', '2024-12-31'].forEach((key) => {
+        expect(toDateKey(createCalendarDate(key, timeZone), timeZone)).toBe(key);
+      });
+    });
+  });
+
+  HOST_ZONES.forEach((hostTimeZone) => {
+    it(`reads back the same calendar date in the host zone ${hostTimeZone}`, () => {
+      process.env.TZ = hostTimeZone;
+
+      expect(toDateKey(createCalendarDate('2024-01-01'))).toBe('2024-01-01');
+    });
+  });
+});
+
+describe('getDefaultDateRange', () => {
+  const hostZone = process.env.TZ;
+
+  afterEach(() => {
+    process.env.TZ = hostZone;
+  });
+
+  HOST_ZONES.forEach((hostTimeZone) => {
+    ZONES.forEach((timeZone) => {
+      it(`spans this year in ${timeZone} on a host in ${hostTimeZone}`, () => {
+        process.env.TZ = hostTimeZone;
+        const year = toDateKey(new Date(), timeZone).slice(0, 4);
+
+        const { startDate, endDate } = getDefaultDateRange(timeZone);
+
+        expect(toDateKey(startDate, timeZone)).toBe(`${year}-01-01`);
+        expect(toDateKey(endDate, timeZone)).toBe(`${year}-12-31`);
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Calendar dates are handled as 'YYYY-MM-DD' keys, the format GitHub returns.
+ * Arithmetic on keys runs in UTC, so no viewer time zone can shift a day.
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const pad = (value: number) => (value < 10 ? '0' : '') + value;
+
+/**
+ * Build a date key from its parts (month is 1-12)
+ */
+export const formatDateKey = (year: number, month: number, day: number): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+/**
+ * Split a date key into its parts (month is 1-12)
+ */
+export const parseDateKey = (key: string): { year: number; month: number; day: number } => {
+  const [year, month, day] = key.split('-').map(Number);
+  return { year, month, day };
+};
+
+/**
+ * The calendar date of an instant in an IANA time zone (the viewer's zone when omitted)
+ */
+export const toDateKey = (date: Date, timeZone?: string): string => {
+  if (!timeZone) {
+    return formatDateKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' });
+    formatters.set(timeZone, formatter);
+  }
+  // en-US numeric output is M/D/YYYY
+  const [month, day, year] = formatter.format(date).split('/').map((part) => Number(part.replace(/\D/g, '')));
+  return formatDateKey(year, month, day);
+};
+
+/**
+ * UTC midnight of a date key
+ */
+export const dateKeyToUTC = (key: string): Date => new Date(`${key}T00:00:00Z`);
+
+/**
+ * Shift a date key by a number of days
+ */
+export const addDays = (key: string, days: number): string => {
+  const date = dateKeyToUTC(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Whole days from one date key to another (negative when `to` is earlier)
+ */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((dateKeyToUTC(to).getTime() - dateKeyToUTC(from).getTime()) / (24 * 60 * 60 * 1000));
+
+/**
+ * Day of the week of a date key (0 = Sunday)
+ */
+export const getDayOfWeek = (key: string): number => dateKeyToUTC(key).getUTCDay();
+
+/**
+ * An instant on a date key's calendar day in an IANA time zone (the viewer's zone when omitted),
+ * so toDateKey(date, timeZone) reads back the same key. Midday avoids DST gaps at midnight.
+ */
+export const createCalendarDate = (key: string, timeZone?: string): Date => {
+  const date = new Date(`${key}T12:00:00Z`);
+  // Zones up to +14h can put UTC midday on the next day; step back by whole days
+  date.setUTCDate(date.getUTCDate() + daysBetween(toDateKey(date, timeZone), key));
+  return date;
+};
+
+/**
+ * January 1st to December 31st of the current year in a time zone (the viewer's zone when omitted)
+ */
+export const getDefaultDateRange = (timeZone?: string): { startDate: Date; endDate: Date } => {
+  const { year } = parseDateKey(toDateKey(new Date(), timeZone));
+  return {
+    startDate: createCalendarDate(formatDateKey(year, 1, 1), timeZone),
+    endDate: createCalendarDate(formatDateKey(year, 12, 31), timeZone)
+  };
+};
@@ -0,0 +1,111 @@
+import type { ContributionSource } from '../types';
+import { aggregateContributions, fetchContributionData } from './fetchContributionData';
+
+const daysByUser = {
+  jane: [
+    { date: '2024-01-02', count: 3, types: { commits: 2, reviews: 1 } },
+    { date: '2024-01-01', count: 1, types: { commits: 1 } }
+  ],
+  joe: [
+    { date: '2024-01-01', count: 2, types: { issues: 2 } },
+    { date: '2024-01-03', count: 5, types: { commits: 5 } }
+  ]
+};
+
+describe('aggregateContributions', () => {
+  it('sums counts and types per date, sorted by date, keeping the count of each user', () => {
+    expect(aggregateContributions(daysByUser)).toEqual([
+      {
+        date: '2024-01-01',
+        count: 3,
+        users: { jane: 1, joe: 2 },
+        types: { commits: 1, issues: 2 },
+        userTypes: { jane: { commits: 1 }, joe: { issues: 2 } }
+      },
+      {
+        date: '2024-01-02',
+        count: 3,
+        users: { jane: 3 },
+        types: { commits: 2, reviews: 1 },
+        userTypes: { jane: { commits: 2, reviews: 1 } }
+      },
+      { date: '2024-01-03', count: 5, users: { joe: 5 }, types: { commits: 5 }, userTypes: { joe: { commits: 5 } } }
+    ]);
+  });
+
+  it('averages over every team member, rounded to one decimal', () => {
+    const days = aggregateContributions({ ...daysByUser, ann: [] }, 'average');
+
+    // Per-user counts stay whole
+    expect(days.map(({ date, count, users, types }) => ({ date, count, users, types }))).toEqual([
+      { date: '2024-01-01', count: 1, users: { jane: 1, joe: 2 }, types: { commits: 0.3, issues: 0.7 } },
+      { date: '2024-01-02', count: 1, users: { jane: 3 }, types: { commits: 0.7, reviews: 0.3 } },
+      { date: '2024-01-03', count: 1.7, users: { joe: 5 }, types: { commits: 1.7 } }
+    ]);
+    expect(days[0].userTypes).toEqual({ jane: { commits: 1 }, joe: { issues: 2 } });
+  });
+
+  it('returns no days for an empty team', () => {
+    expect(aggregateContributions({}, 'average')).toEqual([]);
+  });
+});
+
+describe('fetchContributionData (teams)', () => {
+  const range = {
+    username: '',
+    usernames: ['jane', 'joe'],
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2024-01-31T00:00:00Z'),
+    timeZone: 'UTC'
+  };
+
+  it('fans out one request per user when the source has no batched fetch', async () => {
+    const requested: string[] = [];
+    const source: ContributionSource = {
+      id: 'fake',
+      fetchContributions: async ({ username }) => {
+        requested.push(username);
+        return daysByUser[username as keyof typeof daysByUser];
+      }
+    };
+
+    const data = await fetchContributionData(source, { ...range, aggregate: 'average' });
+
+    expect(requested).toEqual(['jane', 'joe']);
+    expect(data.username).toBe('jane, joe');
+    expect(data.userTotals).toEqual({ jane: 4, joe: 7 });
+    expect(data.totalContributions).toBe(11);
+    expect(data.days.map((day) => day.count)).toEqual([1.5, 1.5, 2.5]);
+  });
+
+  it('passes the signal to every request of a fanned-out team', async () => {
+    const controller = new AbortController();
+    const signals: Array<AbortSignal | undefined> = [];
+    const source: ContributionSource = {
+      id: 'fake',
+      fetchContributions: async ({ signal }) => {
+        signals.push(signal);
+        return [];
+      }
+    };
+
+    await fetchContributionData(source, { ...range, signal: controller.signal });
+
+    expect(signals).toEqual([controller.signal, controller.signal]);
+  });
+
+  it('prefers a batched team fetch from the source', async () => {
+    const source: ContributionSource = {
+      id: 'fake',
+      fetchContributions: async () => {
+        throw new Error('not batched');
+      },
+      fetchTeamContributions: async () => daysByUser
+    };
+
+    const data = await fetchContributionData(source, range);
+
+    expect(data.totalContributions).toBe(11);
+    expect(data.days.map((day) => day.count)).toEqual([3, 3, 5]);
+  });
+});
@@ -0,0 +1,222 @@
+import type {
+  ContributionData,
+  ContributionDay,
+  ContributionSource,
+  ContributionType,
+  TeamAggregation,
+  WeekStartsOn
+} from '../types';
+import { buildContributionGrid, getGridDimensions, sumContributions } from './contributionGrid';
+import { dateKeyToUTC, toDateKey } from './dates';
+
+export interface FetchContributionDataOptions {
+  /** Username to fetch */
+  username: string;
+  /** Usernames to aggregate into one team grid (overrides username) */
+  usernames?: string[];
+  /** How team counts are combined per day */
+  aggregate?: TeamAggregation;
+  /** Start date for the calendar */
+  startDate: Date;
+  /** End date for the calendar */
+  endDate: Date;
+  /** Number of grid rows (defaults to 7) */
+  gridRows?: number;
+  /** Number of grid columns (defaults to the weeks spanned by the range) */
+  gridCols?: number;
+  /** Fetch per-type layers */
+  includeTypes?: boolean;
+  /** IANA time zone that startDate/endDate are read in (defaults to the viewer's) */
+  timeZone?: string;
+  /** First day of each grid column (0 = Sunday) */
+  weekStartsOn?: WeekStartsOn;
+  /** Cancels the underlying requests */
+  signal?: AbortSignal;
+}
+
+export const CONTRIBUTION_TYPES: ContributionType[] = ['commits', 'pullRequests', 'reviews', 'issues'];
+
+/**
+ * Combine several users' day lists into one, keeping the per-user breakdown on each day
+ */
+export const aggregateContributions = (
+  daysByUser: Record<string, ContributionDay[]>,
+  aggregate: TeamAggregation = 'sum'
+): ContributionDay[] => {
+  const usernames = Object.keys(daysByUser);
+  const merged = new Map<string, ContributionDay>();
+
+  usernames.forEach((username) => {
+    daysByUser[username].forEach((day) => {
+      const entry = merged.get(day.date) || { date: day.date, count: 0, users: {} };
+      entry.users![username] = (entry.users![username] || 0) + day.count;
+      entry.count += day.count;
+      if (day.types) {
+        const types = entry.types || (entry.types = {});
+        const userTypes = entry.userTypes || (entry.userTypes = {});
+        const ownTypes = userTypes[username] || (userTypes[username] = {});
+        CONTRIBUTION_TYPES.forEach((type) => {
+          if (day.types![type] !== undefined) {
+            types[type] = (types[type] || 0) + day.types![type]!;
+            ownTypes[type] = (ownTypes[type] || 0) + day.types![type]!;
+          }
+        });
+      }
+      merged.set(day.date, entry);
+    });
+  });
+
+  return Array.from(merged.keys())
+    .sort()
+    .map((date) => {
+      const day = merged.get(date)!;
+      if (aggregate === 'average' && usernames.length > 0) {
+        const average = (value: number) => Math.round((value / usernames.length) * 10) / 10;
+        day.count = average(day.count);
+        if (day.types) {
+          CONTRIBUTION_TYPES.forEach((type) => {
+            if (day.types![type] !== undefined) {
+              day.types![type] = average(day.types![type]!);
+            }
+          });
+        }
+      }
+      return day;
+    });
+};
+
+export interface CreateContributionDataOptions {
+  /** Username (or comma-separated team) shown in the stats */
+  username: string;
+  /** Team members, when aggregated */
+  usernames?: string[];
+  /** Per-user totals, when aggregated */
+  userTotals?: Record<string, number>;
+  /** Start date for the calendar */
+  startDate: Date;
+  /** End date for the calendar */
+  endDate: Date;
+  /** Number of grid rows (defaults to 7) */
+  gridRows?: number;
+  /** Number of grid columns (defaults to the weeks spanned by the range) */
+  gridCols?: number;
+  /** Build per-type layers (defaults to whether any day carries types) */
+  includeTypes?: boolean;
+  /** IANA time zone that startDate/endDate are read in (defaults to the viewer's) */
+  timeZone?: string;
+  /** First day of each grid column (0 = Sunday) */
+  weekStartsOn?: WeekStartsOn;
+}
+
+/**
+ * Lay a day list out as ContributionData without any network access
+ */
+export const createContributionData = (
+  days: ContributionDay[],
+  {
+    username,
+    usernames,
+    userTotals,
+    startDate,
+    endDate,
+    gridRows,
+    gridCols,
+    includeTypes = days.some((day) => !!day.types),
+    timeZone,
+    weekStartsOn = 0
+  }: CreateContributionDataOptions
+): ContributionData => {
+  const startKey = toDateKey(startDate, timeZone);
+  const endKey = toDateKey(endDate, timeZone);
+  const dimensions = getGridDimensions(startKey, endKey, weekStartsOn);
+  const gridOptions = {
+    startDate: startKey,
+    endDate: endKey,
+    gridRows: gridRows ?? dimensions.rows,
+    gridCols: gridCols ?? dimensions.cols,
+    weekStartsOn
+  };
+
+  // One grid per contribution type, parallel to the combined grid
+  let layers: Record<ContributionType, number[][]> | undefined;
+  if (includeTypes) {
+    layers = {} as Record<ContributionType, number[][]>;
+    CONTRIBUTION_TYPES.forEach((type) => {
+      const typeDays = days.map((day) => ({ date: day.date, count: day.types?.[type] || 0 }));
+      layers![type] = buildContributionGrid(typeDays, gridOptions);
+    });
+  }
+
+  const totalContributions = userTotals
+    ? Object.keys(userTotals).reduce((total, login) => total + userTotals[login], 0)
+    : sumContributions(days);
+
+  return {
+    grid: buildContributionGrid(days, gridOptions),
+    startDate: startKey,
+    endDate: endKey,
+    totalContributions,
+    username,
+    days,
+    ...(userTotals ? { usernames, userTotals } : {}),
+    ...(layers ? { layers } : {}),
+    ...(weekStartsOn !== 0 ? { weekStartsOn } : {})
+  };
+};
+
+/**
+ * Fetch contributions from a source and lay them out as ContributionData
+ */
+export const fetchContributionData = async (
+  source: ContributionSource,
+  { username, usernames, aggregate = 'sum', startDate, endDate, gridRows, gridCols, includeTypes = false, timeZone, weekStartsOn, signal }: FetchContributionDataOptions
+): Promise<ContributionData> => {
+  // Sources receive the calendar dates as UTC midnights, whatever zone the range was given in
+  const request = {
+    startDate: dateKeyToUTC(toDateKey(startDate, timeZone)),
+    endDate: dateKeyToUTC(toDateKey(endDate, timeZone)),
+    includeTypes,
+    timeZone,
+    weekStartsOn,
+    signal
+  };
+  let days: ContributionDay[];
+  let userTotals: Record<string, number> | undefined;
+
+  if (usernames && usernames.length > 0) {
+    // Prefer the source's batched fetch; otherwise fan out one request per user
+    let daysByUser: Record<string, ContributionDay[]>;
+    if (source.fetchTeamContributions) {
+      daysByUser = await source.fetchTeamContributions({ ...request, usernames });
+    } else {
+      daysByUser = {};
+      const results = await Promise.all(
+        usernames.map((login) => source.fetchContributions({ ...request, username: login }))
+      );
+      usernames.forEach((login, i) => {
+        daysByUser[login] = results[i];
+      });
+    }
+
+    userTotals = {};
+    usernames.forEach((login) => {
+      userTotals![login] = sumContributions(daysByUser[login] || []);
+    });
+    days = aggregateContributions(daysByUser, aggregate);
+  } else {
+    days = await source.fetchContributions({ ...request, username });
+  }
+
+  return createContributionData(days, {
+    username: usernames && usernames.length > 0 ? usernames.join(', ') : username,
+    usernames: userTotals ? usernames : undefined,
+    userTotals,
+    startDate,
+    endDate,
+    gridRows,
+    gridCols,
+    includeTypes,
+    timeZone,
+    weekStartsOn
+  });
+};
@@ -0,0 +1,176 @@
+import type { RasterImage } from './pngEncoder';
+import { concatBytes } from './pngEncoder';
+
+export interface EncodeGifOptions {
+  /** Milliseconds each frame is shown (GIF stores hundredths of a second) */
+  frameDelay?: number;
+  /** Repeat forever (default true); otherwise play once */
+  loop?: boolean;
+}
+
+// GIF palettes hold at most 256 colors; index 0 is kept for transparent pixels
+const MAX_COLORS = 256;
+const MAX_CODE = 4096;
+
+/**
+ * Shared palette for all frames: every distinct opaque color, the rest mapped to the nearest entry
+ */
+const buildPalette = (frames: RasterImage[]) => {
+  const colors: number[] = [];
+  const indexByColor = new Map<number, number>();
+
+  const nearest = (color: number) => {
+    let best = 1;
+    let bestDistance = Infinity;
+    for (let i = 1; i < colors.length; i++) {
+      const dr = ((color >> 16) & 0xff) - ((colors[i] >> 16) & 0xff);
+      const dg = ((color >> 8) & 0xff) - ((colors[i] >> 8) & 0xff);
+      const db = (color & 0xff) - (colors[i] & 0xff);
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  colors.push(0);
+  const indexFrames = frames.map(({ pixels }) => {
+    const indices = new Uint8Array(pixels.length / 4);
+    for (let i = 0; i < indices.length; i++) {
+      if (pixels[i * 4 + 3] < 128) {
+        continue;
+      }
+      const color = (pixels[i * 4] << 16) | (pixels[i * 4 + 1] << 8) | pixels[i * 4 + 2];
+      let index = indexByColor.get(color);
+      if (index === undefined) {
+        index = colors.length < MAX_COLORS ? colors.push(color) - 1 : nearest(color);
+        indexByColor.set(color, index);
+      }
+      indices[i] = index;
+    }
+    return indices;
+  });
+
+  // The color table size is a power of two, at least 4
+  let bits = 2;
+  while (1 << bits < colors.length) {
+    bits++;
+  }
+  const table = new Uint8Array((1 << bits) * 3);
+  colors.forEach((color, i) => {
+    table[i * 3] = (color >> 16) & 0xff;
+    table[i * 3 + 1] = (color >> 8) & 0xff;
+    table[i * 3 + 2] = color & 0xff;
+  });
+
+  return { bits, table, indexFrames };
+};
+
+/**
+ * Variable-width LZW as GIF expects it, split into data sub-blocks
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const codes = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = codes.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full: start over
+      emit(clearCode);
+      codes.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      codes.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    output.push(buffer & 0xff);
+  }
+
+  const blocks: number[] = [minCodeSize];
+  for (let i = 0; i < output.length; i += 255) {
+    const block = output.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return new Uint8Array(blocks);
+};
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Encode RGBA frames of the same size as an animated GIF.
+ * Pixels under half opacity become transparent; more than 255 colors are mapped to the nearest.
+ */
+export const encodeGif = (frames: RasterImage[], { frameDelay = 150, loop = true }: EncodeGifOptions = {}): Uint8Array => {
+  if (frames.length === 0) {
+    throw new Error('encodeGif needs at least one frame');
+  }
+  const { width, height } = frames[0];
+  const { bits, table, indexFrames } = buildPalette(frames);
+  const delay = Math.max(1, Math.round(frameDelay / 10));
+
+  const chunks: Uint8Array[] = [
+    new Uint8Array([
+      0x47, 0x49, 0x46, 0x38, 0x39, 0x61, // GIF89a
+      ...uint16(width),
+      ...uint16(height),
+      0x80 | ((bits - 1) << 4) | (bits - 1), // global color table
+      0,
+      0
+    ]),
+    table
+  ];
+  if (loop && frames.length > 1) {
+    // NETSCAPE2.0 application extension, 0 = repeat forever
+    chunks.push(new Uint8Array([0x21, 0xff, 0x0b, ...'NETSCAPE2.0'.split('').map((char) => char.charCodeAt(0)), 3, 1, 0, 0, 0]));
+  }
+
+  indexFrames.forEach((indices) => {
+    chunks.push(
+      // Graphic control: restore to background between frames, index 0 transparent
+      new Uint8Array([0x21, 0xf9, 4, (2 << 2) | 1, ...uint16(delay), 0, 0]),
+      new Uint8Array([0x2c, 0, 0, 0, 0, ...uint16(width), ...uint16(height), 0]),
+      lzwEncode(indices, bits)
+    );
+  });
+  chunks.push(new Uint8Array([0x3b]));
+
+  return concatBytes(chunks);
+};
@@ -0,0 +1,164 @@
+import type { CalendarMessages, CalendarMessagesOverride, ContributionType, PluralMessage } from '../types';
+
+export const DEFAULT_MESSAGES: CalendarMessages = {
+  loading: 'Loading contribution data...',
+  retry: 'Retry',
+  rateLimitResets: 'Resets at {time}',
+  errors: {},
+  totalContributions: {
+    one: '{count} contribution in the last year',
+    other: '{count} contributions in the last year'
+  },
+  profile: '{username} on GitHub',
+  contributionCounts: {
+    all: { one: '{count} contribution', other: '{count} contributions' },
+    commits: { one: '{count} commit', other: '{count} commits' },
+    pullRequests: { one: '{count} pull request', other: '{count} pull requests' },
+    reviews: { one: '{count} review', other: '{count} reviews' },
+    issues: { one: '{count} issue', other: '{count} issues' }
+  },
+  dayTooltip: '{contributions} on {date}{breakdown}',
+  emptyDayTooltip: {
+    all: 'No contributions on {date}',
+    commits: 'No commits on {date}',
+    pullRequests: 'No pull requests on {date}',
+    reviews: 'No reviews on {date}',
+    issues: 'No issues on {date}'
+  },
+  typeFilter: {
+    all: 'All',
+    commits: 'Commits',
+    pullRequests: 'Pull requests',
+    reviews: 'Reviews',
+    issues: 'Issues'
+  },
+  typeFilterLabel: 'Contribution type',
+  animationCellTooltip: 'Cell ({row}, {col}): {contributions}',
+  animationCellEmptyTooltip: 'Cell ({row}, {col}): No contributions',
+  patterns: {
+    gameOfLife: "Conway's Game of Life",
+    ripple: 'Circular Ripples',
+    wave: 'Wave Pattern',
+    rain: 'Rain Effect',
+    spiral: 'Spiral Pattern',
+    noise: 'Random Noise',
+    rule30: 'Rule 30 Automaton',
+    image: 'Image Pattern'
+  },
+  startPattern: 'Click to start {pattern}',
+  pausePattern: 'Click to pause & restore {pattern}',
+  animation: 'Animation:',
+  running: '(Running - Gen {generation})',
+  paused: '(Paused)',
+  randomize: 'Randomize',
+  clear: 'Clear',
+  showRealData: 'Show Real Data'
+};
+
+/**
+ * Layer overrides on the English defaults; nested records are merged key by key
+ */
+export const mergeMessages = (overrides?: CalendarMessagesOverride): CalendarMessages => {
+  if (!overrides) {
+    return DEFAULT_MESSAGES;
+  }
+
+  const merged = { ...DEFAULT_MESSAGES } as Record<string, unknown>;
+  (Object.keys(overrides) as Array<keyof CalendarMessages>).forEach((key) => {
+    const value = overrides[key];
+    const fallback = DEFAULT_MESSAGES[key];
+    if (value === undefined) {
+      return;
+    }
+    merged[key] = typeof fallback === 'string' ? value : { ...fallback, ...(value as object) };
+  });
+  return merged as unknown as CalendarMessages;
+};
+
+/**
+ * Fill {placeholders} in a message
+ */
+export const formatMessage = (template: string, values: Record<string, string | number> = {}): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (values[name] !== undefined ? String(values[name]) : match));
+
+// Tooltips are formatted per cell on every frame, so Intl objects are created once per locale
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const getPluralRules = (locale?: string) => {
+  const key = locale || '';
+  let rules = pluralRules.get(key);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(key, rules);
+  }
+  return rules;
+};
+
+/**
+ * Format a number for a locale (cached formatter)
+ */
+export const formatNumber = (value: number, locale?: string): string => {
+  const key = locale || '';
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale);
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+};
+
+/**
+ * Pick the plural form of a message for count
+ */
+export const selectPlural = (message: PluralMessage, count: number, locale?: string): string =>
+  message[getPluralRules(locale).select(count)] ?? message.other;
+
+/**
+ * Pick the plural form for count and fill {count} (formatted for the locale) and any other placeholders
+ */
+export const formatPlural = (
+  message: PluralMessage,
+  count: number,
+  locale?: string,
+  values: Record<string, string | number> = {}
+): string =>
+  formatMessage(selectPlural(message, count, locale), {
+    ...values,
+    count: formatNumber(count, locale)
+  });
+
+export interface DayTooltipOptions {
+  /** Contributions on the day */
+  count: number;
+  /** Formatted date, e.g. "January 5" */
+  date: string;
+  /** Contribution type layer on screen */
+  type?: ContributionType | 'all';
+  /** Per-user counts (team heatmaps), listed after the total */
+  users?: Record<string, number>;
+  /** BCP 47 locale for numbers and plurals */
+  locale?: string;
+}
+
+/**
+ * Tooltip for a day cell, e.g. "3 contributions on January 5 (alice: 2, bob: 1)"
+ */
+export const formatDayTooltip = (
+  messages: CalendarMessages,
+  { count, date, type = 'all', users, locale }: DayTooltipOptions
+): string => {
+  if (count <= 0) {
+    return formatMessage(messages.emptyDayTooltip[type], { date });
+  }
+  const parts = users
+    ? Object.keys(users)
+      .filter((login) => users[login] > 0)
+      .map((login) => `${login}: ${formatNumber(users[login], locale)}`)
+    : [];
+  return formatMessage(messages.dayTooltip, {
+    contributions: formatPlural(messages.contributionCounts[type], count, locale),
+    date,
+    breakdown: parts.length > 0 ? ` (${parts.join(', ')})` : ''
+  });
+};
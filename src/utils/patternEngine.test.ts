@@ -0,0 +1,127 @@
+import type { AnimationPattern } from '../types';
+import { createEmptyGrid, createSeededRandom, generatePatternFrames, PATTERN_ENGINES } from './patternEngine';
+
+const size = { rows: 5, cols: 5 };
+
+// Grid with live cells at the given [row, col] positions
+const gridWith = (cells: Array<[number, number]>) => {
+  const grid = createEmptyGrid(size);
+  cells.forEach(([row, col]) => {
+    grid[row][col] = 1;
+  });
+  return grid;
+};
+
+const horizontalBlinker = gridWith([[2, 1], [2, 2], [2, 3]]);
+const verticalBlinker = gridWith([[1, 2], [2, 2], [3, 2]]);
+
+describe('createSeededRandom', () => {
+  it('replays the same sequence for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const values = Array.from({ length: 20 }, () => first());
+
+    expect(Array.from({ length: 20 }, () => second())).toEqual(values);
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+describe('gameOfLife', () => {
+  const { step } = PATTERN_ENGINES.gameOfLife;
+
+  it('flips a blinker between its two phases', () => {
+    const next = step(horizontalBlinker, {}, Math.random);
+    const after = step(next.grid, next.state, Math.random);
+
+    expect(next).toEqual({ grid: verticalBlinker, state: {}, changed: true });
+    expect(after.grid).toEqual(horizontalBlinker);
+  });
+
+  it('reports a still life as unchanged, which ends generatePatternFrames', () => {
+    const block = gridWith([[1, 1], [1, 2], [2, 1], [2, 2]]);
+
+    expect(step(block, {}, Math.random).changed).toBe(false);
+    expect(generatePatternFrames(block, { pattern: 'gameOfLife', frames: 10 })).toEqual([]);
+  });
+
+  it('never mutates the grid it is given', () => {
+    const grid = horizontalBlinker.map((row) => row.slice());
+
+    step(grid, {}, Math.random);
+
+    expect(grid).toEqual(horizontalBlinker);
+  });
+});
+
+describe('ripple', () => {
+  const { step } = PATTERN_ENGINES.ripple;
+
+  it('grows ripples in a new state and leaves the previous state intact', () => {
+    const state = { ripples: [{ centerRow: 2, centerCol: 2, radius: 1, maxRadius: 5 }] };
+    // No new ripple: the first draw is above the 5% chance
+    const next = step(createEmptyGrid(size), state, () => 0.99);
+
+    expect(next.state.ripples).toEqual([{ centerRow: 2, centerCol: 2, radius: 1.5, maxRadius: 5 }]);
+    expect(state.ripples[0].radius).toBe(1);
+    expect(next.grid[2][1]).toBe(1);
+    expect(next.grid[2][2]).toBe(0);
+  });
+
+  it('drops ripples that outgrow their radius', () => {
+    const next = step(
+      createEmptyGrid(size),
+      { ripples: [{ centerRow: 2, centerCol: 2, radius: 5, maxRadius: 5 }] },
+      () => 0.99
+    );
+
+    expect(next.state.ripples).toEqual([]);
+  });
+});
+
+describe('wave and spiral', () => {
+  (['wave', 'spiral'] as AnimationPattern[]).forEach((pattern) => {
+    it(`${pattern} advances its time and depends on nothing else`, () => {
+      const { step } = PATTERN_ENGINES[pattern];
+      const first = step(createEmptyGrid(size), {}, Math.random);
+      const again = step(createEmptyGrid(size), {}, Math.random);
+
+      expect(first.state).toEqual({ time: 1 });
+      expect(step(first.grid, first.state, Math.random).state).toEqual({ time: 2 });
+      expect(again.grid).toEqual(first.grid);
+    });
+  });
+});
+
+describe('rule30', () => {
+  it('starts from one live cell and grows it on the middle row', () => {
+    const engine = PATTERN_ENGINES.rule30;
+    const start = engine.createGrid(size, Math.random);
+
+    expect(start).toEqual(gridWith([[2, 2]]));
+    expect(engine.step(start, {}, Math.random).grid[2]).toEqual([0, 1, 1, 1, 0]);
+  });
+});
+
+describe('generatePatternFrames', () => {
+  (['gameOfLife', 'ripple', 'rain', 'noise'] as AnimationPattern[]).forEach((pattern) => {
+    it(`replays ${pattern} exactly with the same seed`, () => {
+      const run = () => {
+        const random = createSeededRandom(7);
+        const start = PATTERN_ENGINES[pattern].createGrid({ rows: 7, cols: 20 }, random);
+        return generatePatternFrames(start, { pattern, frames: 15, random });
+      };
+
+      const frames = run();
+
+      expect(frames.length).toBeGreaterThan(0);
+      expect(run()).toEqual(frames);
+    });
+  });
+
+  it('produces one grid per generation', () => {
+    const frames = generatePatternFrames(horizontalBlinker, { pattern: 'gameOfLife', frames: 4 });
+
+    expect(frames).toEqual([verticalBlinker, horizontalBlinker, verticalBlinker, horizontalBlinker]);
+  });
+});
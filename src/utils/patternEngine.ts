@@ -0,0 +1,311 @@
+import type { AnimationPattern, PatternEngine, PatternRandom, PatternState } from '../types';
+import type { GridDimensions } from './contributionGrid';
+
+export interface GeneratePatternFramesOptions {
+  /** Pattern to run */
+  pattern: AnimationPattern;
+  /** Maximum number of generations to produce */
+  frames: number;
+  /** Random source (defaults to Math.random; pass createSeededRandom for repeatable runs) */
+  random?: PatternRandom;
+}
+
+/**
+ * Deterministic random source (mulberry32), so exports and tests can replay a run
+ */
+export const createSeededRandom = (seed: number): PatternRandom => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createEmptyGrid = ({ rows, cols }: GridDimensions): number[][] =>
+  new Array(rows).fill(0).map(() => new Array(cols).fill(0));
+
+export const createRandomGrid = ({ rows, cols }: GridDimensions, rng: PatternRandom = Math.random): number[][] =>
+  new Array(rows).fill(0).map(() =>
+    new Array(cols).fill(0).map(() => (rng() > 0.7 ? 1 : 0))
+  );
+
+const getGridSize = (grid: number[][]): GridDimensions => ({ rows: grid.length, cols: grid[0]?.length || 0 });
+
+const copyGrid = (grid: number[][]) => grid.map((row) => [...row]);
+
+// Count neighbors for Game of Life
+const countNeighbors = (grid: number[][], row: number, col: number, { rows, cols }: GridDimensions) => {
+  let count = 0;
+  const directions = [
+    [-1, -1], [-1, 0], [-1, 1],
+    [0, -1],           [0, 1],
+    [1, -1],  [1, 0],  [1, 1],
+  ];
+
+  for (const [dr, dc] of directions) {
+    const newRow = row + dr;
+    const newCol = col + dc;
+    if (newRow >= 0 && newRow < rows && newCol >= 0 && newCol < cols) {
+      count += grid[newRow][newCol];
+    }
+  }
+  return count;
+};
+
+const gameOfLife: PatternEngine = {
+  pattern: 'gameOfLife',
+  createGrid: createRandomGrid,
+  step: (grid, state) => {
+    const size = getGridSize(grid);
+    const newGrid = createEmptyGrid(size);
+    let changed = false;
+
+    for (let row = 0; row < size.rows; row++) {
+      for (let col = 0; col < size.cols; col++) {
+        const neighbors = countNeighbors(grid, row, col, size);
+        const currentCell = grid[row][col];
+
+        if (currentCell === 1) {
+          newGrid[row][col] = neighbors === 2 || neighbors === 3 ? 1 : 0;
+        } else {
+          newGrid[row][col] = neighbors === 3 ? 1 : 0;
+        }
+
+        if (newGrid[row][col] !== currentCell) {
+          changed = true;
+        }
+      }
+    }
+    return { grid: newGrid, state, changed };
+  }
+};
+
+const ripple: PatternEngine = {
+  pattern: 'ripple',
+  createGrid: createEmptyGrid,
+  step: (grid, { ripples = [] }, rng) => {
+    const { rows, cols } = getGridSize(grid);
+    const newGrid = createEmptyGrid({ rows, cols });
+
+    // Add new ripple occasionally
+    const growing = [...ripples];
+    if (rng() < 0.05) {
+      growing.push({
+        centerRow: Math.floor(rng() * rows),
+        centerCol: Math.floor(rng() * cols),
+        radius: 0,
+        maxRadius: rng() * 15 + 5,
+      });
+    }
+
+    // Grow existing ripples (as copies, so the previous state stays intact)
+    const newRipples = growing
+      .map((current) => ({ ...current, radius: current.radius + 0.5 }))
+      .filter((current) => current.radius <= current.maxRadius);
+
+    // Draw ripples
+    newRipples.forEach(({ centerRow, centerCol, radius }) => {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const distance = Math.sqrt(
+            Math.pow(row - centerRow, 2) + Math.pow(col - centerCol, 2)
+          );
+
+          if (Math.abs(distance - radius) < 1) {
+            newGrid[row][col] = 1;
+          }
+        }
+      }
+    });
+
+    return { grid: newGrid, state: { ripples: newRipples }, changed: true };
+  }
+};
+
+const wave: PatternEngine = {
+  pattern: 'wave',
+  createGrid: createEmptyGrid,
+  step: (grid, { time = 0 }) => {
+    const { rows, cols } = getGridSize(grid);
+    const newGrid = createEmptyGrid({ rows, cols });
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const wave1 = Math.sin(col * 0.2 + time * 0.1);
+        const wave2 = Math.sin(row * 0.3 + time * 0.15);
+        const combined = (wave1 + wave2) / 2;
+
+        newGrid[row][col] = combined > 0.3 ? 1 : 0;
+      }
+    }
+
+    return { grid: newGrid, state: { time: time + 1 }, changed: true };
+  }
+};
+
+const rain: PatternEngine = {
+  pattern: 'rain',
+  createGrid: createEmptyGrid,
+  step: (grid, state, rng) => {
+    const { rows, cols } = getGridSize(grid);
+    const newGrid = copyGrid(grid);
+
+    // Add new raindrops at top
+    for (let col = 0; col < cols; col++) {
+      if (rng() < 0.05) {
+        newGrid[0][col] = 1;
+      }
+    }
+
+    // Move existing drops down
+    for (let row = rows - 1; row > 0; row--) {
+      for (let col = 0; col < cols; col++) {
+        if (grid[row - 1][col] === 1) {
+          newGrid[row][col] = 1;
+          newGrid[row - 1][col] = 0;
+        }
+      }
+    }
+
+    // Clear bottom row
+    for (let col = 0; col < cols; col++) {
+      if (rng() < 0.3) {
+        newGrid[rows - 1][col] = 0;
+      }
+    }
+
+    return { grid: newGrid, state, changed: true };
+  }
+};
+
+const spiral: PatternEngine = {
+  pattern: 'spiral',
+  createGrid: createEmptyGrid,
+  step: (grid, { time = 0 }) => {
+    const { rows, cols } = getGridSize(grid);
+    const newGrid = createEmptyGrid({ rows, cols });
+    const centerRow = rows / 2;
+    const centerCol = cols / 2;
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const dx = col - centerCol;
+        const dy = row - centerRow;
+        const angle = Math.atan2(dy, dx);
+        const distance = Math.sqrt(dx * dx + dy * dy);
+
+        const spiralValue = Math.sin(angle * 3 + distance * 0.5 - time * 0.2);
+        newGrid[row][col] = spiralValue > 0.5 ? 1 : 0;
+      }
+    }
+
+    return { grid: newGrid, state: { time: time + 1 }, changed: true };
+  }
+};
+
+const noise: PatternEngine = {
+  pattern: 'noise',
+  createGrid: createRandomGrid,
+  step: (grid, state, rng) => {
+    const { rows, cols } = getGridSize(grid);
+    const newGrid = createEmptyGrid({ rows, cols });
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        newGrid[row][col] = rng() > 0.8 ? 1 : 0;
+      }
+    }
+
+    return { grid: newGrid, state, changed: true };
+  }
+};
+
+const rule30: PatternEngine = {
+  pattern: 'rule30',
+  // A single live cell in the middle
+  createGrid: (size) => {
+    const grid = createEmptyGrid(size);
+    if (size.rows > 0 && size.cols > 0) {
+      grid[Math.floor(size.rows / 2)][Math.floor(size.cols / 2)] = 1;
+    }
+    return grid;
+  },
+  step: (grid, state) => {
+    const { rows, cols } = getGridSize(grid);
+    const newGrid = copyGrid(grid);
+
+    // Apply Rule 30 to middle row
+    const middleRow = Math.floor(rows / 2);
+    const currentRow = grid[middleRow];
+
+    for (let col = 1; col < cols - 1; col++) {
+      const left = currentRow[col - 1];
+      const center = currentRow[col];
+      const right = currentRow[col + 1];
+
+      // Rule 30: 111->0, 110->0, 101->0, 100->1, 011->1, 010->1, 001->1, 000->0
+      const pattern = (left << 2) | (center << 1) | right;
+      newGrid[middleRow][col] = [0, 1, 1, 1, 1, 0, 0, 0][pattern];
+    }
+
+    // Shift other rows
+    for (let row = 0; row < rows; row++) {
+      if (row !== middleRow) {
+        for (let col = cols - 1; col > 0; col--) {
+          newGrid[row][col] = grid[row][col - 1];
+        }
+        newGrid[row][0] = 0;
+      }
+    }
+
+    return { grid: newGrid, state, changed: true };
+  }
+};
+
+// Image patterns are drawn by the caller; the engine leaves the grid as it is
+const image: PatternEngine = {
+  pattern: 'image',
+  createGrid: createEmptyGrid,
+  step: (grid, state) => ({ grid, state, changed: false })
+};
+
+/** Engines for every animation pattern */
+export const PATTERN_ENGINES: Record<AnimationPattern, PatternEngine> = {
+  gameOfLife,
+  ripple,
+  wave,
+  rain,
+  spiral,
+  noise,
+  rule30,
+  image
+};
+
+/**
+ * Run a pattern offscreen from a starting grid and return each following generation.
+ * Stops early when Game of Life settles, like the animation loop.
+ */
+export const generatePatternFrames = (
+  initialGrid: number[][],
+  { pattern, frames, random = Math.random }: GeneratePatternFramesOptions
+): number[][][] => {
+  const engine = PATTERN_ENGINES[pattern];
+  const generated: number[][][] = [];
+  let grid = initialGrid;
+  let state: PatternState = {};
+
+  for (let generation = 0; generation < frames; generation++) {
+    const next = engine.step(grid, state, random);
+    if (pattern === 'gameOfLife' && !next.changed) {
+      break;
+    }
+    generated.push(next.grid);
+    grid = next.grid;
+    state = next.state;
+  }
+
+  return generated;
+};
@@ -0,0 +1,192 @@
+export interface RasterImage {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** RGBA bytes, row by row from the top left */
+  pixels: Uint8Array;
+}
+
+export interface EncodePngOptions {
+  /**
+   * zlib-format compressor for the image data, e.g. zlib.deflateSync in Node.
+   * Without one the data is stored uncompressed, which every decoder still reads.
+   */
+  deflate?: (data: Uint8Array) => Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Largest payload of one uncompressed deflate block
+const STORED_BLOCK_SIZE = 65535;
+
+let crcTable: number[] | null = null;
+
+const crc32 = (bytes: Uint8Array, start = 0, end = bytes.length): number => {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const writeUint32 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+};
+
+const writeUint16 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = (value >>> 8) & 0xff;
+  target[offset + 1] = value & 0xff;
+};
+
+export const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * zlib stream of uncompressed deflate blocks
+ */
+const storeDeflate = (data: Uint8Array): Uint8Array => {
+  const blockCount = Math.max(1, Math.ceil(data.length / STORED_BLOCK_SIZE));
+  const output = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+  output[0] = 0x78;
+  output[1] = 0x01;
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * STORED_BLOCK_SIZE;
+    const length = Math.min(STORED_BLOCK_SIZE, data.length - start);
+    output[offset] = block === blockCount - 1 ? 1 : 0;
+    output[offset + 1] = length & 0xff;
+    output[offset + 2] = length >>> 8;
+    output[offset + 3] = ~length & 0xff;
+    output[offset + 4] = (~length >>> 8) & 0xff;
+    output.set(data.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+  writeUint32(output, offset, adler32(data));
+  return output;
+};
+
+/**
+ * One PNG chunk: length, type, data and CRC
+ */
+export const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  writeUint32(chunk, data.length + 8, crc32(chunk, 4, data.length + 8));
+  return chunk;
+};
+
+export const createPngHeader = (width: number, height: number): Uint8Array => {
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return concatBytes([new Uint8Array(PNG_SIGNATURE), createPngChunk('IHDR', header)]);
+};
+
+/**
+ * Compressed scanlines of an image (filter type 0 on every row)
+ */
+export const compressPngData = ({ width, height, pixels }: RasterImage, { deflate }: EncodePngOptions = {}): Uint8Array => {
+  const stride = width * 4;
+  const scanlines = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    scanlines.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return deflate ? deflate(scanlines) : storeDeflate(scanlines);
+};
+
+/**
+ * Encode an RGBA image as a PNG file
+ */
+export const encodePng = (image: RasterImage, options: EncodePngOptions = {}): Uint8Array =>
+  concatBytes([
+    createPngHeader(image.width, image.height),
+    createPngChunk('IDAT', compressPngData(image, options)),
+    createPngChunk('IEND', new Uint8Array(0))
+  ]);
+
+export interface EncodeApngOptions extends EncodePngOptions {
+  /** Milliseconds each frame is shown */
+  frameDelay?: number;
+  /** Repeat forever (default true); otherwise play once */
+  loop?: boolean;
+}
+
+/**
+ * Encode RGBA frames of the same size as an animated PNG; viewers without APNG support show the first frame
+ */
+export const encodeApng = (
+  frames: RasterImage[],
+  { frameDelay = 150, loop = true, ...options }: EncodeApngOptions = {}
+): Uint8Array => {
+  if (frames.length === 0) {
+    throw new Error('encodeApng needs at least one frame');
+  }
+  const { width, height } = frames[0];
+  const delay = Math.max(0, Math.min(0xffff, Math.round(frameDelay)));
+  const animationControl = new Uint8Array(8);
+  writeUint32(animationControl, 0, frames.length);
+  writeUint32(animationControl, 4, loop ? 0 : 1);
+
+  const chunks = [createPngHeader(width, height), createPngChunk('acTL', animationControl)];
+  // fcTL and fdAT chunks share one sequence
+  let sequence = 0;
+
+  frames.forEach((frame, index) => {
+    const frameControl = new Uint8Array(26);
+    writeUint32(frameControl, 0, sequence++);
+    writeUint32(frameControl, 4, width);
+    writeUint32(frameControl, 8, height);
+    // x/y offsets stay 0; the delay is a fraction, delay / 1000 seconds
+    writeUint16(frameControl, 20, delay);
+    writeUint16(frameControl, 22, 1000);
+    chunks.push(createPngChunk('fcTL', frameControl));
+
+    const data = compressPngData(frame, options);
+    if (index === 0) {
+      chunks.push(createPngChunk('IDAT', data));
+      return;
+    }
+    const frameData = new Uint8Array(data.length + 4);
+    writeUint32(frameData, 0, sequence++);
+    frameData.set(data, 4);
+    chunks.push(createPngChunk('fdAT', frameData));
+  });
+
+  chunks.push(createPngChunk('IEND', new Uint8Array(0)));
+  return concatBytes(chunks);
+};
@@ -0,0 +1,140 @@
+import type { Theme, ThemeMode, ThemePreset } from '../types';
+import { formatColor, mixColors, parseColor } from './colors';
+
+/** The stylesheet's light and dark colors as themes, for rendering without CSS */
+export const MODE_THEMES: Record<ThemeMode, Theme> = {
+  light: {
+    mode: 'light',
+    background: '#ffffff',
+    text: '#1f2937',
+    emptyCell: '#ebedf0',
+    levels: ['#9be9a8', '#40c463', '#30a14e', '#216e39'],
+    accent: '#3b82f6',
+    border: '#d1d5db'
+  },
+  dark: {
+    mode: 'dark',
+    background: '#070707',
+    text: '#f0f6fc',
+    emptyCell: '#201f22',
+    levels: ['#0e4429', '#006d32', '#26a641', '#39d353'],
+    accent: '#60a5fa',
+    border: '#201f22'
+  }
+};
+
+/** Built-in themes; spread one to start a custom theme */
+export const THEMES: Record<ThemePreset, Theme> = {
+  githubClassic: MODE_THEMES.light,
+  halloween: {
+    mode: 'dark',
+    background: '#0d0d0d',
+    text: '#f0f6fc',
+    emptyCell: '#201f22',
+    levels: ['#631c03', '#bd561d', '#fa7a18', '#fddf68'],
+    accent: '#fa7a18'
+  },
+  // Single-hue blue ramp with an orange accent; distinguishable with red-green color blindness
+  colorblind: {
+    mode: 'light',
+    background: '#ffffff',
+    text: '#1f2937',
+    emptyCell: '#ebedf0',
+    levels: ['#c6dbef', '#6baed6', '#2171b5', '#08306b'],
+    accent: '#e66100',
+    border: '#d1d5db'
+  },
+  monochrome: {
+    mode: 'light',
+    background: '#ffffff',
+    text: '#1f2937',
+    emptyCell: '#ebedf0',
+    levels: ['#bdbdbd', '#969696', '#636363', '#252525'],
+    accent: '#525252',
+    border: '#d1d5db'
+  }
+};
+
+// The stylesheet defines --cc-level-1..4 for the light and dark modes
+const DEFAULT_LEVEL_COLORS = 4;
+
+/**
+ * Theme object for a theme prop value
+ */
+export const resolveTheme = (theme: ThemeMode | Theme): Theme =>
+  typeof theme === 'string' ? MODE_THEMES[theme] : theme;
+
+/**
+ * CSS variables that apply a theme. Set them on the .contribution-calendar-container element itself
+ * (inline, or a rule matching it): the container declares every --cc-* variable, so values set on
+ * an ancestor are overridden.
+ */
+export const getThemeVariables = (theme: Theme): Record<string, string> => {
+  const variables: Record<string, string> = {
+    '--cc-bg': theme.background,
+    '--cc-container': theme.background,
+    '--cc-text': theme.text,
+    '--cc-square-empty': theme.emptyCell,
+    '--cc-border': theme.border || theme.emptyCell,
+    '--cc-accent': theme.accent,
+    '--cc-accent-hover': `color-mix(in srgb, ${theme.accent} 85%, black)`
+  };
+  theme.levels.forEach((color, i) => {
+    variables[`--cc-level-${i + 1}`] = color;
+  });
+  return variables;
+};
+
+/**
+ * Number of level colors a theme defines (the stylesheet's four when there is no theme object)
+ */
+export const getPaletteSize = (theme?: Theme): number =>
+  theme && theme.levels.length > 0 ? theme.levels.length : DEFAULT_LEVEL_COLORS;
+
+export interface LevelPaletteMix {
+  /** Palette index (0-based) of the lower color */
+  lower: number;
+  /** Palette index of the upper color */
+  upper: number;
+  /** Share of the upper color, 0-1 */
+  weight: number;
+}
+
+/**
+ * Where a level (1..levels) falls on a palette of paletteSize colors.
+ * Levels map straight onto the palette when the counts match and are blended otherwise.
+ */
+export const getLevelPaletteMix = (level: number, levels: number, paletteSize: number): LevelPaletteMix => {
+  if (levels === paletteSize) {
+    return { lower: level - 1, upper: level - 1, weight: 0 };
+  }
+  const position = levels > 1 ? ((level - 1) / (levels - 1)) * (paletteSize - 1) : paletteSize - 1;
+  const lower = Math.floor(position);
+  const weight = Math.round((position - lower) * 100) / 100;
+  return { lower, upper: weight > 0 ? lower + 1 : lower, weight };
+};
+
+/**
+ * CSS color for a level (1..levels), read from the --cc-level-N variables
+ */
+export const getLevelColor = (level: number, levels: number, paletteSize: number): string => {
+  const { lower, upper, weight } = getLevelPaletteMix(level, levels, paletteSize);
+  return weight === 0
+    ? `var(--cc-level-${lower + 1})`
+    : `color-mix(in srgb, var(--cc-level-${upper + 1}) ${Math.round(weight * 100)}%, var(--cc-level-${lower + 1}))`;
+};
+
+/**
+ * Concrete colors for levels 1..levels from a theme's palette, blended where needed.
+ * Colors that cannot be parsed (named, hsl()) are used as-is without blending.
+ */
+export const getLevelColors = (palette: string[], levels: number): string[] =>
+  Array.from({ length: levels }, (_, i) => {
+    const { lower, upper, weight } = getLevelPaletteMix(i + 1, levels, palette.length);
+    const from = parseColor(palette[lower]);
+    const to = parseColor(palette[upper]);
+    if (weight === 0 || !from || !to) {
+      return palette[weight >= 0.5 ? upper : lower];
+    }
+    return formatColor(mixColors(from, to, weight));
+  });